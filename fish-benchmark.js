@@ -0,0 +1,38 @@
+import { createServer } from 'vite';
+
+// Reports flocking step times at 100 / 1,000 / 5,000 fish.
+// Usage: npm run bench:fish [-- 200 2000 8000]
+
+const FRAME_BUDGET_MS = 1000 / 60;
+
+async function runBenchmark() {
+    // Only used to load the TypeScript sources; nothing is served
+    const server = await createServer({
+        configFile: false,
+        logLevel: 'error',
+        appType: 'custom',
+        server: { middlewareMode: true, hmr: false }
+    });
+
+    try {
+        const { runFishBenchmark } = await server.ssrLoadModule('/src/fish/benchmark.ts');
+        const counts = process.argv.slice(2).map(Number).filter(n => n > 0);
+        const results = runFishBenchmark(counts.length ? { counts } : {});
+
+        console.log('🐟 Fish school step times (simulation only, no drawing)\n');
+        console.table(results.map(r => ({
+            fish: r.fishCount,
+            'mean ms': r.meanMs.toFixed(2),
+            'p95 ms': r.p95Ms.toFixed(2),
+            'max ms': r.maxMs.toFixed(2),
+            '60fps budget': r.p95Ms < FRAME_BUDGET_MS ? '✅' : '❌'
+        })));
+    } finally {
+        await server.close();
+    }
+}
+
+runBenchmark().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
@@ -2,25 +2,52 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import gsap from 'gsap';
 import { ScrollTrigger } from 'gsap/ScrollTrigger';
-import NauticalCartographyBackground from './components/NauticalCartographyBackground';
 import FishSchoolParticles from './components/FishSchoolParticles';
 import OceanCurrents from './components/OceanCurrents';
 import GeometricCompassRose from './components/GeometricCompassRose';
 import { IntroSequence } from './components/IntroSequence';
 import { ContentOverlay } from './components/ContentOverlay';
+import { PrintRoot } from './components/PrintRoot';
+import { SpecSheetPage } from './components/SpecSheetPage';
+import { ThemeBackground } from './components/ThemeBackground';
+import { ThemeSwitcher } from './components/ThemeSwitcher';
 import { STORY_CARDS } from './constants';
-import { StoryCard, Rect } from './types';
+import { StoryCard, ProductItem, Rect } from './types';
+import { HOME_ROUTE, resolveRoute } from './routing/routes';
+import { useRoute } from './routing/useRoute';
+import { startQualityGovernor } from './render/qualityGovernor';
+import { useTheme } from './themes/useTheme';
+import { cardSectionId } from './scene/scenes';
+import { setActiveSection, startSceneBlend } from './scene/sceneBlend';
+import { registerSection } from './scene/sectionRegistry';
+import { registerObstacle } from './input/obstacles';
+import { useActiveSection } from './scene/useActiveSection';
+import { pulseClick, setInput, startInputTracking } from './input/inputStore';
+import { useInput } from './input/useInput';
 import { ArrowRight, Compass, ShipWheel, Anchor, ArrowDown } from 'lucide-react';
 
 gsap.registerPlugin(ScrollTrigger);
 
+// Scroll progress past which the hero's "scroll down" arrow fades out
+const SCROLL_CUE_HIDE_AT = 0.02;
+
+// Re-renders only when the arrow crosses SCROLL_CUE_HIDE_AT, not every scroll frame
+const ScrollCue = () => {
+  const scrolled = useInput(s => s.scrollProgress > SCROLL_CUE_HIDE_AT);
+  return (
+    <div className={`animate-bounce pt-10 transition-opacity duration-700 ${scrolled ? 'opacity-0' : 'opacity-50'}`}>
+      <ArrowDown className="mx-auto text-gold-500" />
+    </div>
+  );
+};
+
 // Depth Gauge Component
 const DepthGauge = () => {
   const indicatorRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     // Move indicator based on scroll progress
-    gsap.to(indicatorRef.current, {
+    const tween = gsap.to(indicatorRef.current, {
       y: '80vh', // Move down the screen
       ease: 'none',
       scrollTrigger: {
@@ -30,6 +57,11 @@ const DepthGauge = () => {
         scrub: 0.5
       }
     });
+
+    return () => {
+      tween.scrollTrigger?.kill();
+      tween.kill();
+    };
   }, []);
 
   return (
@@ -47,190 +79,252 @@ const DepthGauge = () => {
   );
 };
 
+interface ActiveCardState {
+  card: StoryCard;
+  rect: Rect;
+  productId?: string;
+  closing?: boolean;
+}
+
+const toRect = (rect: DOMRect): Rect => ({
+  top: rect.top,
+  left: rect.left,
+  width: rect.width,
+  height: rect.height
+});
+
+// Used when a deep link targets a card that isn't in the viewport
+const centeredRect = (): Rect => {
+  const width = window.innerWidth * 0.4;
+  const height = window.innerHeight * 0.4;
+  return {
+    top: (window.innerHeight - height) / 2,
+    left: (window.innerWidth - width) / 2,
+    width,
+    height
+  };
+};
+
 const App: React.FC = () => {
   const [loading, setLoading] = useState(true);
-  const [activeCard, setActiveCard] = useState<{ card: StoryCard; rect: Rect } | null>(null);
+  const [activeCard, setActiveCard] = useState<ActiveCardState | null>(null);
+  const { route, navigate, exitToHome } = useRoute();
+  const theme = useTheme();
   const [isExpanded, setIsExpanded] = useState(false);
 
   // Section tracking for shader effects
-  const [activeSectionIndex, setActiveSectionIndex] = useState(0);
-  const [scrollProgress, setScrollProgress] = useState(0);
-
-  // Interaction states for compass rose and fish
-  const [isHovering, setIsHovering] = useState(false);
-  const [isClicked, setIsClicked] = useState(false);
-  const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 });
-  const [compassRotation, setCompassRotation] = useState(0);
+  const { index: activeSectionIndex } = useActiveSection();
 
   const mainRef = useRef<HTMLDivElement>(null);
   const cardsRef = useRef<(HTMLDivElement | null)[]>([]);
   const heroImageRef = useRef<HTMLImageElement>(null);
   const heroRef = useRef<HTMLElement>(null);
   const footerRef = useRef<HTMLElement>(null);
+  const pendingRectRef = useRef<{ cardId: string; rect: Rect } | null>(null);
+
+  // Background layers scale their cost to the measured frame rate
+  useEffect(() => startQualityGovernor(), []);
+
+  // Scroll, pointer and hover/click reach the layers through the input
+  // store, not App state, so they don't re-render the page
+  useEffect(() => startInputTracking(), []);
+
+  // Layers ease toward the active section's scene (see scene/scenes.ts)
+  useEffect(() => startSceneBlend(), []);
+  useEffect(() => {
+    setActiveSection(activeSectionIndex);
+    setInput({ section: activeSectionIndex });
+  }, [activeSectionIndex]);
 
   // Sync geometry state with active card
   useEffect(() => {
     setIsExpanded(!!activeCard);
   }, [activeCard]);
 
-  // Mouse tracking for interaction effects
+  // The fish school takes the shape of whatever is open
   useEffect(() => {
-    const handleMouseMove = (e: MouseEvent) => {
-      setMousePosition({ x: e.clientX, y: e.clientY });
-    };
-
-    window.addEventListener('mousemove', handleMouseMove);
-    return () => window.removeEventListener('mousemove', handleMouseMove);
-  }, []);
-
-  // Calculate compass rotation from scroll progress and user interactions
-  useEffect(() => {
-    const baseRotation = scrollProgress * Math.PI * 4; // Multiple rotations through scroll
-    const hoverEffect = isHovering ? 0.2 : 0;
-    const clickEffect = isClicked ? 0.5 : 0;
-    setCompassRotation(baseRotation + hoverEffect + clickEffect);
-  }, [scrollProgress, isHovering, isClicked]);
+    const product = activeCard?.card.productList?.find(p => p.id === activeCard.productId);
+    setInput({ openSpecies: product?.species ?? activeCard?.card.species ?? null });
+  }, [activeCard]);
 
-  // Animations
+  // Route -> overlay. The URL is the source of truth for which card is open;
+  // clicks navigate and this effect opens, refocuses or closes the overlay.
   useEffect(() => {
+    // The sheet page sits over whatever is open; an unknown product has no sheet
+    if (route.name === 'sheet') {
+      if (!resolveRoute(route, STORY_CARDS)?.product) navigate(HOME_ROUTE, { replace: true });
+      return;
+    }
     if (loading) return;
 
-    // 0. Hero Parallax
-    if (heroImageRef.current) {
-        gsap.to(heroImageRef.current, {
-            yPercent: 30,
-            ease: "none",
-            scrollTrigger: {
-                trigger: "header",
-                start: "top top",
-                end: "bottom top",
-                scrub: true
-            }
-        });
+    if (route.name === 'home') {
+      setActiveCard(current => (current ? { ...current, closing: true } : current));
+      return;
     }
 
-    // 1. Initial Intro Animation for cards
-    gsap.fromTo(cardsRef.current, 
-      { 
-        y: 150,
-        opacity: 0,
-        scale: 0.9
-      },
-      {
-        y: 0,
-        opacity: 1,
-        scale: 1,
-        duration: 1.5,
-        stagger: 0.2,
-        ease: 'power3.out',
-        scrollTrigger: {
-            trigger: mainRef.current,
-            start: "top 80%",
-        }
+    const resolved = resolveRoute(route, STORY_CARDS);
+    if (!resolved) {
+      navigate(HOME_ROUTE, { replace: true });
+      return;
+    }
+
+    const { card, product } = resolved;
+    const pending = pendingRectRef.current;
+    pendingRectRef.current = null;
+
+    let rect = pending && pending.cardId === card.id ? pending.rect : null;
+    if (!rect) {
+      const el = cardsRef.current[STORY_CARDS.indexOf(card)];
+      const bounds = el?.getBoundingClientRect();
+      const onScreen = bounds && bounds.bottom > 0 && bounds.top < window.innerHeight;
+      rect = onScreen ? toRect(bounds) : centeredRect();
+    }
+    const openingRect = rect;
+
+    setActiveCard(current => {
+      if (current && current.card.id === card.id && !current.closing) {
+        return { ...current, productId: product?.id };
       }
-    );
-
-    // 2. Per-Card Scroll Interactions (Z-Axis Float)
-    cardsRef.current.forEach((card, index) => {
-        if(!card) return;
-
-        // Parallax effect for the card relative to scroll
-        gsap.fromTo(card,
-            { y: 100, scale: 0.95, opacity: 0.5 },
-            {
-                y: 0,
-                scale: 1,
-                opacity: 1,
-                ease: "power2.out",
-                scrollTrigger: {
-                    trigger: card,
-                    start: "top 90%",
-                    end: "center center",
-                    scrub: 1
-                }
-            }
-        );
-
-        // Exit effect
-        gsap.to(card, {
-             scale: 0.95,
-             opacity: 0.2,
-             y: -50,
-             ease: "power2.in",
-             scrollTrigger: {
-                 trigger: card,
-                 start: "center top+=100",
-                 end: "bottom top",
-                 scrub: 1
-             }
-        });
+      return { card, rect: openingRect, productId: product?.id };
     });
+  }, [route, loading, navigate]);
 
-    // 3. Section-based Shader Triggers
-    // Hero section (index 0)
-    ScrollTrigger.create({
-      trigger: heroRef.current,
-      start: 'top top',
-      end: 'bottom center',
-      onEnter: () => setActiveSectionIndex(0),
-      onEnterBack: () => setActiveSectionIndex(0)
-    });
+  // Animations
+  useEffect(() => {
+    if (loading) return;
 
-    // Card sections (index 1-4)
-    cardsRef.current.forEach((card, index) => {
-      if (!card) return;
+    // Reverted on cleanup, killing every tween and ScrollTrigger made here
+    const ctx = gsap.context(() => {
+      // 0. Hero Parallax
+      if (heroImageRef.current) {
+          gsap.to(heroImageRef.current, {
+              yPercent: 30,
+              ease: "none",
+              scrollTrigger: {
+                  trigger: "header",
+                  start: "top top",
+                  end: "bottom top",
+                  scrub: true
+              }
+          });
+      }
 
-      ScrollTrigger.create({
-        trigger: card,
-        start: 'top center',
-        end: 'bottom center',
-        onEnter: () => setActiveSectionIndex(index + 1),
-        onEnterBack: () => setActiveSectionIndex(index + 1)
+      // 1. Initial Intro Animation for cards
+      gsap.fromTo(cardsRef.current, 
+        { 
+          y: 150,
+          opacity: 0,
+          scale: 0.9
+        },
+        {
+          y: 0,
+          opacity: 1,
+          scale: 1,
+          duration: 1.5,
+          stagger: 0.2,
+          ease: 'power3.out',
+          scrollTrigger: {
+              trigger: mainRef.current,
+              start: "top 80%",
+          }
+        }
+      );
+
+      // 2. Per-Card Scroll Interactions (Z-Axis Float)
+      cardsRef.current.forEach((card, index) => {
+          if(!card) return;
+
+          // Parallax effect for the card relative to scroll
+          gsap.fromTo(card,
+              { y: 100, scale: 0.95, opacity: 0.5 },
+              {
+                  y: 0,
+                  scale: 1,
+                  opacity: 1,
+                  ease: "power2.out",
+                  scrollTrigger: {
+                      trigger: card,
+                      start: "top 90%",
+                      end: "center center",
+                      scrub: 1
+                  }
+              }
+          );
+
+          // Exit effect
+          gsap.to(card, {
+               scale: 0.95,
+               opacity: 0.2,
+               y: -50,
+               ease: "power2.in",
+               scrollTrigger: {
+                   trigger: card,
+                   start: "center top+=100",
+                   end: "bottom top",
+                   scrub: 1
+               }
+          });
       });
     });
 
-    // Footer section (index 5)
-    ScrollTrigger.create({
-      trigger: footerRef.current,
-      start: 'top center',
-      onEnter: () => setActiveSectionIndex(5),
-      onEnterBack: () => setActiveSectionIndex(5)
-    });
+    return () => ctx.revert();
+  }, [loading]);
 
-    // 4. Global Scroll Progress for Shader
-    ScrollTrigger.create({
-      trigger: document.body,
-      start: 'top top',
-      end: 'bottom bottom',
-      scrub: 0.5,
-      onUpdate: (self) => {
-        setScrollProgress(self.progress);
-      }
+  // Sections register under the ids their scenes are keyed by; the layers
+  // follow whichever is on screen. Re-registers if the card list changes.
+  useEffect(() => {
+    if (loading) return;
+
+    const unregisters = [
+      heroRef.current && registerSection('hero', heroRef.current, { start: 'top top', end: 'bottom center' }),
+      ...STORY_CARDS.map((card, index) => {
+        const el = cardsRef.current[index];
+        return el && registerSection(cardSectionId(card), el);
+      }),
+      footerRef.current && registerSection('footer', footerRef.current, { end: 'bottom bottom' })
+    ];
+    ScrollTrigger.refresh();
+
+    return () => unregisters.forEach(unregister => unregister?.());
+  }, [loading, STORY_CARDS]);
+
+  // The fish swim around each card's panel rather than its full-width row
+  useEffect(() => {
+    if (loading) return;
+
+    const unregisters = cardsRef.current.map(el => {
+      const panel = el?.querySelector('.card-inner') ?? el;
+      return panel && registerObstacle(panel);
     });
 
-  }, [loading]);
+    return () => unregisters.forEach(unregister => unregister?.());
+  }, [loading, STORY_CARDS]);
 
   const handleCardClick = (card: StoryCard, index: number) => {
-    setIsClicked(true);
-    setTimeout(() => setIsClicked(false), 300); // Brief click effect
+    pulseClick();
 
     const el = cardsRef.current[index];
     if (el) {
-      const rect = el.getBoundingClientRect();
-      setActiveCard({
-        card,
-        rect: {
-          top: rect.top,
-          left: rect.left,
-          width: rect.width,
-          height: rect.height
-        }
-      });
+      pendingRectRef.current = { cardId: card.id, rect: toRect(el.getBoundingClientRect()) };
+      navigate({ name: 'card', cardId: card.id });
     }
   };
 
+  const handleSelectProduct = useCallback((product: ProductItem) => {
+    navigate({ name: 'product', productId: product.id }, { replace: true });
+  }, [navigate]);
+
+  const handleOpenSheet = useCallback((product: ProductItem) => {
+    navigate({ name: 'sheet', productId: product.id });
+  }, [navigate]);
+
+  const handleOverlayClose = useCallback(() => {
+    setActiveCard(null);
+    exitToHome();
+  }, [exitToHome]);
+
   const handleMouseEnter = (e: React.MouseEvent<HTMLDivElement>) => {
-    setIsHovering(true);
+    setInput({ hovering: true });
 
     const inner = e.currentTarget.querySelector('.card-inner');
     if (inner) {
@@ -245,7 +339,7 @@ const App: React.FC = () => {
   };
 
   const handleMouseLeave = (e: React.MouseEvent<HTMLDivElement>) => {
-    setIsHovering(false);
+    setInput({ hovering: false });
 
     const inner = e.currentTarget.querySelector('.card-inner');
     if (inner) {
@@ -259,34 +353,26 @@ const App: React.FC = () => {
     }
   };
 
+  // The spec sheet page covers the scroll experience rather than replacing
+  // it, so the layers, ScrollTriggers and section registry stay bound to a
+  // live tree for when the reader comes back
+  const sheet = route.name === 'sheet' ? resolveRoute(route, STORY_CARDS) : null;
+  const sheetProduct = sheet?.product;
+
   return (
     <div className="relative min-h-screen font-sans text-parchment selection:bg-gold-500 selection:text-navy-950 perspective-[2000px] overflow-x-hidden" style={{ backgroundColor: '#020c1b' }}>
       
       {/* Enhanced Nautical Background System - Emergence from Pure Black */}
-      <NauticalCartographyBackground
-        scrollProgress={scrollProgress}
-        sectionIndex={activeSectionIndex}
-      />
-      <OceanCurrents
-        intensity={0.8}
-        scrollProgress={scrollProgress}
-      />
-      <FishSchoolParticles
-        scrollProgress={scrollProgress}
-        sectionIndex={activeSectionIndex}
-        compassRotation={compassRotation}
-        isHovering={isHovering}
-        isClicked={isClicked}
-      />
-      <GeometricCompassRose
-        scrollProgress={scrollProgress}
+      <ThemeBackground
+        theme={theme}
         sectionIndex={activeSectionIndex}
-        isHovering={isHovering}
-        isClicked={isClicked}
         isExpanded={isExpanded}
-        mousePosition={mousePosition}
       />
+      <OceanCurrents />
+      <FishSchoolParticles />
+      <GeometricCompassRose isExpanded={isExpanded} />
       <DepthGauge />
+      <ThemeSwitcher />
 
       {loading && <IntroSequence onComplete={() => setLoading(false)} />}
 
@@ -344,9 +430,7 @@ const App: React.FC = () => {
               Scientific precision meets wild ocean. Premium frozen Yellowfin, Swordfish, and Mahi from Panama.
             </p>
             
-            <div className="animate-bounce pt-10 opacity-50">
-                <ArrowDown className="mx-auto text-gold-500" />
-            </div>
+            <ScrollCue />
           </div>
         </header>
 
@@ -443,13 +527,30 @@ const App: React.FC = () => {
         </footer>
       </div>
 
+      <PrintRoot cards={STORY_CARDS} defaultProductIds={sheetProduct ? [sheetProduct.id] : undefined} />
+
       {activeCard && (
         <ContentOverlay 
+          key={activeCard.card.id}
           card={activeCard.card} 
           initialRect={activeCard.rect}
-          onClose={() => setActiveCard(null)} 
+          selectedProductId={activeCard.productId}
+          closeRequested={activeCard.closing}
+          onSelectProduct={handleSelectProduct}
+          onOpenSheet={handleOpenSheet}
+          onClose={handleOverlayClose} 
         />
       )}
+
+      {sheet && sheetProduct && (
+        <div className="fixed inset-0 z-[80] overflow-y-auto overscroll-contain">
+          <SpecSheetPage
+            card={sheet.card}
+            product={sheetProduct}
+            onBack={() => navigate({ name: 'product', productId: sheetProduct.id })}
+          />
+        </div>
+      )}
     </div>
   );
 };
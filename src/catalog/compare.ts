@@ -0,0 +1,62 @@
+import { ProductItem, SpecKey } from '../types';
+import { buildMatrix } from './matrix';
+
+// Pinned products for the side-by-side comparison panel.
+// Pins are stored per catalog card so they survive a reload.
+
+export const MIN_COMPARE = 2;
+export const MAX_COMPARE = 4;
+
+const storageKey = (cardId: string) => `btf:compare:${cardId}`;
+
+export const loadPinnedIds = (cardId: string, products: ProductItem[]): string[] => {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(storageKey(cardId)) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    // Drop ids for products that have since left the catalog
+    return stored
+      .filter((id): id is string => typeof id === 'string' && products.some(p => p.id === id))
+      .slice(0, MAX_COMPARE);
+  } catch {
+    return [];
+  }
+};
+
+export const savePinnedIds = (cardId: string, ids: string[]) => {
+  try {
+    if (ids.length === 0) window.localStorage.removeItem(storageKey(cardId));
+    else window.localStorage.setItem(storageKey(cardId), JSON.stringify(ids));
+  } catch {
+    // Private mode / quota: pins just won't persist
+  }
+};
+
+// Unpins if pinned, otherwise pins unless the panel is already full.
+export const togglePinnedId = (ids: string[], id: string) => {
+  if (ids.includes(id)) return ids.filter(pinned => pinned !== id);
+  return ids.length < MAX_COMPARE ? [...ids, id] : ids;
+};
+
+export interface ComparisonRow {
+  key: SpecKey;
+  label: string;
+  values: string[];
+  differs: boolean;
+}
+
+// One row per spec any pinned product has, values in pin order.
+// A row differs when the products don't all share the same value.
+export const buildComparison = (products: ProductItem[]): ComparisonRow[] => {
+  const { columns, rows } = buildMatrix(products);
+  return columns
+    .filter((column): column is { key: SpecKey; label: string } => column.key !== 'name')
+    .map(column => {
+      const values = rows.map(row => row.cells[column.key]);
+      return {
+        key: column.key,
+        label: column.label,
+        values,
+        differs: new Set(values).size > 1
+      };
+    });
+};
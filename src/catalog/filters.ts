@@ -0,0 +1,122 @@
+import { ProductItem } from '../types';
+import { convertWeight } from './specs';
+
+// Facet filtering, search and sorting for the Premium Catch catalog.
+// Values within a facet are OR-ed, facets are AND-ed together.
+
+export type FacetKey = 'origin' | 'cut' | 'packFormat' | 'grade';
+
+export type CatalogFilters = Record<FacetKey, string[]> & { query: string };
+
+export type SortKey = 'featured' | 'name-asc' | 'name-desc' | 'portion-asc' | 'portion-desc';
+
+export const FACET_LABELS: Record<FacetKey, string> = {
+  origin: 'Origin',
+  cut: 'Cut',
+  packFormat: 'Pack',
+  grade: 'Grade'
+};
+
+export const SORT_LABELS: Record<SortKey, string> = {
+  'featured': 'Featured',
+  'name-asc': 'Name A–Z',
+  'name-desc': 'Name Z–A',
+  'portion-asc': 'Portion: Small to Large',
+  'portion-desc': 'Portion: Large to Small'
+};
+
+export const EMPTY_FILTERS: CatalogFilters = {
+  origin: [],
+  cut: [],
+  packFormat: [],
+  grade: [],
+  query: ''
+};
+
+const facetValues = (product: ProductItem, facet: FacetKey): string[] => {
+  const { specs } = product;
+  switch (facet) {
+    case 'origin':
+      return specs.origin ?? [];
+    case 'cut':
+      return specs.cut;
+    case 'packFormat':
+      return specs.packFormat ? [specs.packFormat] : [];
+    case 'grade':
+      return specs.grade ?? [];
+  }
+};
+
+// Distinct values per facet, in first-seen order. Facets with a single value
+// can't narrow anything down and are left out.
+export const collectFacets = (products: ProductItem[]): Partial<Record<FacetKey, string[]>> => {
+  const facets: Partial<Record<FacetKey, string[]>> = {};
+  (Object.keys(FACET_LABELS) as FacetKey[]).forEach(facet => {
+    const values = Array.from(new Set(products.flatMap(product => facetValues(product, facet))));
+    if (values.length > 1) facets[facet] = values;
+  });
+  return facets;
+};
+
+export const hasActiveFilters = (filters: CatalogFilters) =>
+  filters.query.trim() !== '' ||
+  (Object.keys(FACET_LABELS) as FacetKey[]).some(facet => filters[facet].length > 0);
+
+export const toggleFacetValue = (filters: CatalogFilters, facet: FacetKey, value: string): CatalogFilters => {
+  const current = filters[facet];
+  return {
+    ...filters,
+    [facet]: current.includes(value) ? current.filter(v => v !== value) : [...current, value]
+  };
+};
+
+// Search covers the name, description, species and every facet's values
+const matchesQuery = (product: ProductItem, query: string) => {
+  const tokens = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return true;
+  const haystack = [
+    product.name,
+    product.description,
+    product.species ?? '',
+    ...(Object.keys(FACET_LABELS) as FacetKey[]).flatMap(facet => facetValues(product, facet))
+  ].join(' ').toLowerCase();
+  return tokens.every(token => haystack.includes(token));
+};
+
+export const filterProducts = (products: ProductItem[], filters: CatalogFilters) =>
+  products.filter(product =>
+    matchesQuery(product, filters.query) &&
+    (Object.keys(FACET_LABELS) as FacetKey[]).every(facet => {
+      const selected = filters[facet];
+      if (selected.length === 0) return true;
+      const values = facetValues(product, facet);
+      return selected.some(value => values.includes(value));
+    })
+  );
+
+// Smallest portion in ounces; products without a portion size sort last.
+const portionKey = (product: ProductItem) => {
+  const size = product.specs.portionSize;
+  return size ? convertWeight(size.min, size.unit, 'oz') : null;
+};
+
+export const sortProducts = (products: ProductItem[], sort: SortKey) => {
+  if (sort === 'featured') return products;
+
+  const sorted = [...products];
+  if (sort === 'name-asc' || sort === 'name-desc') {
+    const direction = sort === 'name-asc' ? 1 : -1;
+    sorted.sort((a, b) => a.name.localeCompare(b.name) * direction);
+  } else {
+    const direction = sort === 'portion-asc' ? 1 : -1;
+    sorted.sort((a, b) => {
+      const pa = portionKey(a);
+      const pb = portionKey(b);
+      if (pa === null && pb === null) return 0;
+      if (pa === null) return 1;
+      if (pb === null) return -1;
+      return (pa - pb) * direction;
+    });
+  }
+  return sorted;
+};
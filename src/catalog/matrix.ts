@@ -0,0 +1,99 @@
+import { ProductItem, SpecKey } from '../types';
+import { SPEC_LABELS, convertWeight, toSpecRows } from './specs';
+
+// Column model for the Inventory Matrix table and its CSV export.
+
+export type MatrixColumnKey = 'name' | SpecKey;
+
+export interface MatrixColumn {
+  key: MatrixColumnKey;
+  label: string;
+}
+
+export interface MatrixRow {
+  product: ProductItem;
+  cells: Record<MatrixColumnKey, string>;
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface MatrixSort {
+  column: MatrixColumnKey;
+  direction: SortDirection;
+}
+
+const SPEC_COLUMN_ORDER: SpecKey[] = ['cut', 'grade', 'portionSize', 'pack', 'origin', 'treatments'];
+
+export const buildMatrix = (products: ProductItem[]) => {
+  const rows: MatrixRow[] = products.map(product => {
+    const cells = { name: product.name } as Record<MatrixColumnKey, string>;
+    SPEC_COLUMN_ORDER.forEach(key => { cells[key] = ''; });
+    toSpecRows(product.specs).forEach(row => { cells[row.key] = row.value; });
+    return { product, cells };
+  });
+
+  // One column per spec that at least one product has
+  const columns: MatrixColumn[] = [
+    { key: 'name', label: 'Product' },
+    ...SPEC_COLUMN_ORDER
+      .filter(key => rows.some(row => row.cells[key]))
+      .map(key => ({ key, label: SPEC_LABELS[key] }))
+  ];
+
+  return { columns, rows };
+};
+
+// Portion sizes compare by weight, everything else alphabetically.
+// Empty cells always sort last.
+export const sortMatrixRows = (rows: MatrixRow[], sort: MatrixSort | null) => {
+  if (!sort) return rows;
+
+  const direction = sort.direction === 'asc' ? 1 : -1;
+  const weightOf = (row: MatrixRow) => {
+    const size = row.product.specs.portionSize;
+    return size ? convertWeight(size.min, size.unit, 'g') : null;
+  };
+
+  return [...rows].sort((a, b) => {
+    const va = a.cells[sort.column];
+    const vb = b.cells[sort.column];
+    if (!va && !vb) return 0;
+    if (!va) return 1;
+    if (!vb) return -1;
+
+    if (sort.column === 'portionSize') {
+      return ((weightOf(a) ?? 0) - (weightOf(b) ?? 0)) * direction;
+    }
+    return va.localeCompare(vb) * direction;
+  });
+};
+
+// Spreadsheets run a cell starting with one of these as a formula; a leading
+// apostrophe makes it plain text
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsv = (raw: string) => {
+  const value = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const matrixToCsv = (columns: MatrixColumn[], rows: MatrixRow[]) => {
+  const header = ['ID', ...columns.map(column => column.label)];
+  const lines = rows.map(row => [row.product.id, ...columns.map(column => row.cells[column.key])]);
+  return [header, ...lines].map(line => line.map(escapeCsv).join(',')).join('\r\n');
+};
+
+const REVOKE_DELAY_MS = 1000;
+
+export const downloadTextFile = (filename: string, content: string, type = 'text/csv;charset=utf-8') => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download after click() returns; revoking straight
+  // away can cancel it
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
@@ -0,0 +1,90 @@
+import { ProductSpecs, SpecRow, Weight, WeightRange, WeightUnit, PackFormat, Treatment, CaseType } from '../types';
+
+// Units, formatting and comparison helpers for structured product specs.
+
+export const WEIGHT_UNITS: WeightUnit[] = ['oz', 'lb', 'g', 'kg'];
+export const PACK_FORMATS: PackFormat[] = ['IVP', 'IQF', 'Bulk'];
+export const CASE_TYPES: CaseType[] = ['Master', 'Box'];
+export const TREATMENTS: Treatment[] = ['CO', 'FAS'];
+
+export const PACK_FORMAT_LABELS: Record<PackFormat, string> = {
+  IVP: 'IVP',
+  IQF: 'IQF',
+  Bulk: 'Bulk'
+};
+
+export const TREATMENT_LABELS: Record<Treatment, string> = {
+  CO: 'CO-Treated',
+  FAS: 'Frozen at Sea'
+};
+
+export const SPEC_LABELS: Record<SpecRow['key'], string> = {
+  cut: 'Cut',
+  grade: 'Grade',
+  portionSize: 'Size',
+  pack: 'Pack',
+  origin: 'Origin',
+  treatments: 'Treatment'
+};
+
+const GRAMS_PER_UNIT: Record<WeightUnit, number> = {
+  g: 1,
+  kg: 1000,
+  oz: 28.349523125,
+  lb: 453.59237
+};
+
+export const convertWeight = (value: number, from: WeightUnit, to: WeightUnit) =>
+  (value * GRAMS_PER_UNIT[from]) / GRAMS_PER_UNIT[to];
+
+export const toGrams = (weight: Weight) => convertWeight(weight.value, weight.unit, 'g');
+
+export const convertRange = (range: WeightRange, to: WeightUnit): WeightRange => ({
+  min: convertWeight(range.min, range.unit, to),
+  max: convertWeight(range.max, range.unit, to),
+  unit: to
+});
+
+const formatNumber = (value: number) =>
+  Number.isInteger(value) ? String(value) : value.toFixed(1).replace(/\.0$/, '');
+
+export const formatWeight = (weight: Weight) => `${formatNumber(weight.value)} ${weight.unit}`;
+
+export const formatWeightRange = (range: WeightRange) =>
+  range.min === range.max
+    ? `${formatNumber(range.min)} ${range.unit}`
+    : `${formatNumber(range.min)}–${formatNumber(range.max)} ${range.unit}`;
+
+// True when any portion in `range` falls inside [min, max] of `unit`
+export const rangeOverlaps = (range: WeightRange, min: number, max: number, unit: WeightUnit) => {
+  const converted = convertRange(range, unit);
+  return converted.max >= min && converted.min <= max;
+};
+
+export const formatPack = (specs: ProductSpecs) => {
+  const parts: string[] = [];
+  if (specs.packFormat) parts.push(PACK_FORMAT_LABELS[specs.packFormat]);
+  if (specs.caseWeight) {
+    parts.push([formatWeight(specs.caseWeight), specs.caseType].filter(Boolean).join(' '));
+  } else if (specs.caseType) {
+    parts.push(specs.caseType);
+  }
+  return parts.join(' / ');
+};
+
+// Flatten specs into the label/value rows shown in the catalog and spec sheets.
+export const toSpecRows = (specs: ProductSpecs): SpecRow[] => {
+  const rows: SpecRow[] = [];
+  const push = (key: SpecRow['key'], value: string | undefined) => {
+    if (value) rows.push({ key, label: SPEC_LABELS[key], value });
+  };
+
+  push('cut', specs.cut.join(' / '));
+  push('grade', specs.grade?.join(' / '));
+  push('portionSize', specs.portionSize && formatWeightRange(specs.portionSize));
+  push('pack', formatPack(specs));
+  push('origin', specs.origin?.join(' / '));
+  push('treatments', specs.treatments?.map(t => TREATMENT_LABELS[t]).join(' / '));
+
+  return rows;
+};
@@ -0,0 +1,108 @@
+import React from 'react';
+import { Search, X } from 'lucide-react';
+import {
+  CatalogFilters,
+  FacetKey,
+  FACET_LABELS,
+  SORT_LABELS,
+  SortKey,
+  hasActiveFilters,
+  toggleFacetValue,
+  EMPTY_FILTERS
+} from '../catalog/filters';
+
+interface Props {
+  facets: Partial<Record<FacetKey, string[]>>;
+  filters: CatalogFilters;
+  sort: SortKey;
+  resultCount: number;
+  totalCount: number;
+  onFiltersChange: (filters: CatalogFilters) => void;
+  onSortChange: (sort: SortKey) => void;
+}
+
+export const CatalogControls: React.FC<Props> = ({
+  facets,
+  filters,
+  sort,
+  resultCount,
+  totalCount,
+  onFiltersChange,
+  onSortChange
+}) => {
+  const active = hasActiveFilters(filters);
+
+  return (
+    <div className="flex flex-col gap-4 mb-6 shrink-0 overlay-animate-up">
+      <div className="flex flex-col md:flex-row gap-4 md:items-center">
+        {/* Search */}
+        <label className="relative flex-1 max-w-md">
+          <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gold-500/50" />
+          <input
+            type="search"
+            value={filters.query}
+            onChange={e => onFiltersChange({ ...filters, query: e.target.value })}
+            placeholder="Search species, cut, origin, description…"
+            aria-label="Search catalog"
+            className="w-full bg-navy-900/60 border border-gold-500/20 focus:border-gold-500 outline-none pl-9 pr-4 py-2 text-parchment text-sm font-sans placeholder:text-parchment/30"
+          />
+        </label>
+
+        {/* Sort */}
+        <label className="flex items-center gap-3 text-[10px] font-mono tracking-[0.2em] text-gold-500/70 uppercase">
+          Sort
+          <select
+            value={sort}
+            onChange={e => onSortChange(e.target.value as SortKey)}
+            className="bg-navy-900/60 border border-gold-500/20 focus:border-gold-500 outline-none px-3 py-2 text-parchment text-xs font-sans normal-case tracking-normal"
+          >
+            {(Object.keys(SORT_LABELS) as SortKey[]).map(key => (
+              <option key={key} value={key}>{SORT_LABELS[key]}</option>
+            ))}
+          </select>
+        </label>
+
+        <span className="font-mono text-[10px] tracking-[0.2em] text-parchment/40 md:ml-auto">
+          {resultCount} / {totalCount} ITEMS
+        </span>
+      </div>
+
+      {/* Facet chips */}
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+        {(Object.keys(facets) as FacetKey[]).map(facet => (
+          <div key={facet} className="flex flex-wrap items-center gap-2">
+            <span className="text-[10px] font-mono tracking-[0.2em] text-gold-500/50 uppercase mr-1">
+              {FACET_LABELS[facet]}
+            </span>
+            {facets[facet]!.map(value => {
+              const selected = filters[facet].includes(value);
+              return (
+                <button
+                  key={value}
+                  onClick={() => onFiltersChange(toggleFacetValue(filters, facet, value))}
+                  aria-pressed={selected}
+                  className={`px-3 py-1 text-[11px] font-sans tracking-wider border transition-colors ${
+                    selected
+                      ? 'border-gold-500 bg-gold-500 text-navy-950'
+                      : 'border-white/10 text-parchment/70 hover:border-gold-500/50'
+                  }`}
+                >
+                  {value}
+                </button>
+              );
+            })}
+          </div>
+        ))}
+
+        {active && (
+          <button
+            onClick={() => onFiltersChange(EMPTY_FILTERS)}
+            className="flex items-center gap-1 text-[10px] font-mono tracking-[0.2em] text-gold-400/70 hover:text-gold-400 uppercase"
+          >
+            <X size={12} /> Clear
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import gsap from 'gsap';
+import { ProductItem } from '../types';
+import { buildComparison } from '../catalog/compare';
+import { Columns3, X } from 'lucide-react';
+
+interface Props {
+  products: ProductItem[];
+  onUnpin: (id: string) => void;
+  onClose: () => void;
+}
+
+// Pinned products side by side, specs aligned row by row.
+// Rows where the products disagree are highlighted.
+export const ComparePanel: React.FC<Props> = ({ products, onUnpin, onClose }) => {
+  const panelRef = useRef<HTMLDivElement>(null);
+  const [differencesOnly, setDifferencesOnly] = useState(false);
+
+  const rows = useMemo(() => buildComparison(products), [products]);
+  const visibleRows = differencesOnly ? rows.filter(row => row.differs) : rows;
+  const differenceCount = rows.filter(row => row.differs).length;
+
+  useEffect(() => {
+    gsap.fromTo(panelRef.current,
+      { y: 40, opacity: 0 },
+      { y: 0, opacity: 1, duration: 0.5, ease: 'power3.out' }
+    );
+  }, []);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const gridStyle = { gridTemplateColumns: `minmax(120px, 0.6fr) repeat(${products.length}, minmax(160px, 1fr))` };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center bg-navy-950/70 backdrop-blur-sm p-4 md:p-12" onClick={onClose}>
+      <div
+        ref={panelRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Compare products"
+        onClick={e => e.stopPropagation()}
+        className="w-full max-w-6xl max-h-full overflow-auto bg-navy-950 border border-gold-500/20 p-8 md:p-12 relative"
+      >
+        <button onClick={onClose} className="absolute top-6 right-6 text-gold-400 hover:text-white transition-colors" aria-label="Close">
+          <X size={24} />
+        </button>
+
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-8 pr-10">
+          <div>
+            <div className="flex items-center gap-3 text-gold-500 mb-3">
+              <Columns3 size={18} />
+              <span className="text-xs font-sans tracking-[0.3em] uppercase">Side by Side</span>
+            </div>
+            <h2 className="text-4xl font-serif text-parchment">Compare the Catch</h2>
+          </div>
+          <label className="flex items-center gap-3 text-[10px] font-mono tracking-[0.2em] text-gold-500/70 uppercase cursor-pointer">
+            <input
+              type="checkbox"
+              checked={differencesOnly}
+              onChange={e => setDifferencesOnly(e.target.checked)}
+              className="accent-[#c5a028]"
+            />
+            Differences only ({differenceCount})
+          </label>
+        </div>
+
+        <div role="table" aria-label="Product comparison" className="grid font-sans text-sm" style={gridStyle}>
+          {/* Product headers */}
+          <div role="row" className="contents">
+            <span role="columnheader" />
+            {products.map(product => (
+              <div role="columnheader" key={product.id} className="px-4 pb-6">
+                <div className="relative h-32 overflow-hidden border border-white/5 mb-4">
+                  <img src={product.image} alt="" className="w-full h-full object-cover" />
+                  <button
+                    onClick={() => onUnpin(product.id)}
+                    className="absolute top-2 right-2 bg-navy-950/80 text-gold-400 hover:text-white p-1 transition-colors"
+                    aria-label={`Remove ${product.name} from comparison`}
+                  >
+                    <X size={14} />
+                  </button>
+                </div>
+                <h3 className="font-serif text-2xl text-parchment">{product.name}</h3>
+              </div>
+            ))}
+          </div>
+
+          {visibleRows.map(row => (
+            <div role="row" key={row.key} className="contents">
+              <span
+                role="rowheader"
+                className={`px-4 py-3 border-t border-white/5 text-[10px] font-mono tracking-[0.2em] uppercase flex items-center ${row.differs ? 'text-gold-400' : 'text-gold-500/50'}`}
+              >
+                {row.label}
+              </span>
+              {row.values.map((value, i) => (
+                <span
+                  role="cell"
+                  key={products[i].id}
+                  className={`px-4 py-3 border-t border-white/5 ${row.differs ? 'bg-gold-500/10 text-parchment' : 'text-parchment/60'}`}
+                >
+                  {value || <span className="text-parchment/20">—</span>}
+                </span>
+              ))}
+            </div>
+          ))}
+
+          {visibleRows.length === 0 && (
+            <p className="col-span-full px-4 py-8 border-t border-white/5 text-center text-parchment/50 font-serif text-xl">
+              These products share every spec.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
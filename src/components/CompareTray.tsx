@@ -0,0 +1,57 @@
+import React from 'react';
+import { ProductItem } from '../types';
+import { MAX_COMPARE, MIN_COMPARE } from '../catalog/compare';
+import { Columns3, X } from 'lucide-react';
+
+interface Props {
+  products: ProductItem[];
+  onUnpin: (id: string) => void;
+  onClear: () => void;
+  onCompare: () => void;
+}
+
+// Bottom bar listing the pinned products, shown while anything is pinned.
+export const CompareTray: React.FC<Props> = ({ products, onUnpin, onClear, onCompare }) => {
+  if (products.length === 0) return null;
+
+  const canCompare = products.length >= MIN_COMPARE;
+
+  return (
+    <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-[55] flex items-center gap-4 bg-navy-900/95 backdrop-blur border border-gold-500/30 px-4 py-3 shadow-2xl">
+      <span className="font-mono text-[10px] tracking-[0.2em] text-gold-500/70 uppercase whitespace-nowrap">
+        Compare {products.length}/{MAX_COMPARE}
+      </span>
+
+      <ul className="flex gap-2">
+        {products.map(product => (
+          <li key={product.id} className="flex items-center gap-2 border border-white/10 pl-1 pr-2 py-1">
+            <img src={product.image} alt="" className="w-8 h-8 object-cover" />
+            <span className="text-xs text-parchment whitespace-nowrap">{product.name}</span>
+            <button
+              onClick={() => onUnpin(product.id)}
+              className="text-gold-500/50 hover:text-gold-400 transition-colors"
+              aria-label={`Remove ${product.name} from comparison`}
+            >
+              <X size={12} />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <button
+        onClick={onCompare}
+        disabled={!canCompare}
+        title={canCompare ? undefined : `Pin at least ${MIN_COMPARE} products`}
+        className="flex items-center gap-2 px-4 py-2 bg-gold-500 text-navy-950 font-sans text-[11px] tracking-[0.2em] hover:bg-gold-400 transition-colors disabled:opacity-40 disabled:hover:bg-gold-500"
+      >
+        <Columns3 size={12} /> COMPARE
+      </button>
+      <button
+        onClick={onClear}
+        className="text-[10px] font-mono tracking-[0.2em] text-gold-400/70 hover:text-gold-400 uppercase"
+      >
+        Clear
+      </button>
+    </div>
+  );
+};
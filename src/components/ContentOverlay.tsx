@@ -1,23 +1,108 @@
 
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import gsap from 'gsap';
-import { StoryCard, Rect } from '../types';
-import { X, MapPin, Anchor, CircleDashed, Fish, Scale, Box, ArrowRight } from 'lucide-react';
+import { StoryCard, ProductItem, Rect, SpecKey } from '../types';
+import { toSpecRows } from '../catalog/specs';
+import {
+  CatalogFilters,
+  EMPTY_FILTERS,
+  SortKey,
+  collectFacets,
+  filterProducts,
+  hasActiveFilters,
+  sortProducts
+} from '../catalog/filters';
+import { SpecRequestForm } from './SpecRequestForm';
+import { CatalogControls } from './CatalogControls';
+import { InventoryMatrix } from './InventoryMatrix';
+import { CompareTray } from './CompareTray';
+import { PinButton } from './PinButton';
+import { StockBadge } from './StockBadge';
+import { TraceabilityLookup } from './TraceabilityLookup';
+import { useInventoryFeed } from '../services/useInventoryFeed';
+import { FeedStatus } from '../services/inventoryFeed';
+import { ComparePanel } from './ComparePanel';
+import { MAX_COMPARE, MIN_COMPARE, loadPinnedIds, savePinnedIds, togglePinnedId } from '../catalog/compare';
+import { printSpecSheets, specSheetTitle } from '../print/printJob';
+import { registerObstacle } from '../input/obstacles';
+import { formatRoute } from '../routing/routes';
+import { X, MapPin, Anchor, CircleDashed, Fish, Scale, Box, ArrowRight, FileDown, FileText, Printer, Award, Globe, Snowflake, SearchX, GalleryHorizontal, Table2 } from 'lucide-react';
+
+// Shared fallback, so the memoised filter and sort see a stable array
+const NO_PRODUCTS: ProductItem[] = [];
+
+const FEED_STATUS_LABELS: Record<FeedStatus, string> = {
+  connecting: 'Connecting to stock feed…',
+  live: 'Live Stock',
+  offline: 'Static Catalog'
+};
+
+const SPEC_ICONS: Record<SpecKey, typeof Fish> = {
+  cut: Fish,
+  grade: Award,
+  portionSize: Scale,
+  pack: Box,
+  origin: Globe,
+  treatments: Snowflake
+};
 
 interface Props {
   card: StoryCard;
   initialRect: Rect;
+  selectedProductId?: string;
+  closeRequested?: boolean;
+  onSelectProduct?: (product: ProductItem) => void;
+  // Opens the product's standalone spec sheet page
+  onOpenSheet?: (product: ProductItem) => void;
   onClose: () => void;
 }
 
-export const ContentOverlay: React.FC<Props> = ({ card, initialRect, onClose }) => {
+export const ContentOverlay: React.FC<Props> = ({
+  card,
+  initialRect,
+  selectedProductId,
+  closeRequested = false,
+  onSelectProduct,
+  onOpenSheet,
+  onClose
+}) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const imgContainerRef = useRef<HTMLDivElement>(null);
   const textContainerRef = useRef<HTMLDivElement>(null);
   const contentElementsRef = useRef<HTMLDivElement>(null);
   const carouselRef = useRef<HTMLDivElement>(null);
+  const isClosingRef = useRef(false);
+  const [isRequestOpen, setIsRequestOpen] = useState(false);
+
+  const [filters, setFilters] = useState<CatalogFilters>(EMPTY_FILTERS);
+  const [sort, setSort] = useState<SortKey>('featured');
+  const [catalogView, setCatalogView] = useState<'carousel' | 'matrix'>('carousel');
 
   const isCatalog = card.type === 'catalog' && card.productList;
+  const products = card.productList ?? NO_PRODUCTS;
+  const selectedProduct = products.find(p => p.id === selectedProductId);
+
+  const facets = useMemo(() => collectFacets(products), [products]);
+  const visibleProducts = useMemo(
+    () => sortProducts(filterProducts(products, filters), sort),
+    [products, filters, sort]
+  );
+  const visibleKey = visibleProducts.map(p => p.id).join('|');
+  const animatedKeyRef = useRef(visibleKey);
+
+  const { status: feedStatus, stock } = useInventoryFeed(isCatalog ? products.map(p => p.id) : []);
+
+  const [pinnedIds, setPinnedIds] = useState(() => loadPinnedIds(card.id, products));
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const pinnedProducts = pinnedIds
+    .map(id => products.find(p => p.id === id))
+    .filter((p): p is ProductItem => Boolean(p));
+  const togglePin = (id: string) => setPinnedIds(ids => togglePinnedId(ids, id));
+  const isPinLimitReached = pinnedIds.length >= MAX_COMPARE;
+
+  useEffect(() => {
+    savePinnedIds(card.id, pinnedIds);
+  }, [card.id, pinnedIds]);
 
   useEffect(() => {
     const tl = gsap.timeline();
@@ -73,7 +158,43 @@ export const ContentOverlay: React.FC<Props> = ({ card, initialRect, onClose })
 
   }, [initialRect, isCatalog]);
 
+  // The fish flow around the panel while it grows and shrinks
+  useEffect(() => {
+    const container = containerRef.current;
+    return container ? registerObstacle(container) : undefined;
+  }, []);
+
+  // Re-run the product card entrance whenever the filtered set changes
+  useEffect(() => {
+    if (!isCatalog || catalogView !== 'carousel' || animatedKeyRef.current === visibleKey) return;
+    animatedKeyRef.current = visibleKey;
+    carouselRef.current?.scrollTo({ left: 0 });
+    gsap.fromTo(".product-card[data-product-id]",
+      { x: 80, opacity: 0 },
+      { x: 0, opacity: 1, duration: 0.8, stagger: 0.1, ease: "power3.out", overwrite: true }
+    );
+  }, [isCatalog, catalogView, visibleKey]);
+
+  // Bring the selected (or deep-linked) product into view once the
+  // carousel entrance animation has had time to start.
+  useEffect(() => {
+    if (!isCatalog || !selectedProductId || !carouselRef.current) return;
+
+    const target = carouselRef.current.querySelector<HTMLElement>(
+      `[data-product-id="${CSS.escape(selectedProductId)}"]`
+    );
+    if (!target) return;
+
+    const timeout = window.setTimeout(() => {
+      target.scrollIntoView({ behavior: 'smooth', inline: 'center', block: 'nearest' });
+    }, 600);
+    return () => window.clearTimeout(timeout);
+  }, [isCatalog, selectedProductId]);
+
   const handleClose = () => {
+    if (isClosingRef.current) return;
+    isClosingRef.current = true;
+
     const tl = gsap.timeline({ onComplete: onClose });
     
     tl.to(".overlay-animate-up, .product-card", {
@@ -89,6 +210,11 @@ export const ContentOverlay: React.FC<Props> = ({ card, initialRect, onClose })
     });
   };
 
+  // Browser Back (route left the card) closes with the same animation
+  useEffect(() => {
+    if (closeRequested) handleClose();
+  }, [closeRequested]);
+
   // Horizontal scroll for catalog via wheel
   const handleWheel = (e: React.WheelEvent) => {
      if(carouselRef.current) {
@@ -135,7 +261,7 @@ export const ContentOverlay: React.FC<Props> = ({ card, initialRect, onClose })
                 </div>
             </div>
 
-            <div ref={textContainerRef} className="w-full md:w-1/2 h-[60vh] md:h-full relative bg-navy-950 flex flex-col justify-center p-8 md:p-24">
+            <div ref={textContainerRef} className="w-full md:w-1/2 h-[60vh] md:h-full relative bg-navy-950 flex flex-col p-8 md:p-24 overflow-y-auto scrollbar-hide">
                 {/* Bg Graphic */}
                 <div className="absolute top-0 right-0 p-20 opacity-5 pointer-events-none">
                     <svg width="400" height="400" viewBox="0 0 100 100" className="animate-[spin_60s_linear_infinite]">
@@ -144,7 +270,8 @@ export const ContentOverlay: React.FC<Props> = ({ card, initialRect, onClose })
                     </svg>
                 </div>
 
-                <div ref={contentElementsRef} className="relative z-10">
+                {/* my-auto centres the text but still lets a long lookup result scroll */}
+                <div ref={contentElementsRef} className="relative z-10 my-auto">
                 <div className="flex items-center gap-3 text-gold-500 mb-8 overlay-animate-up">
                     <Anchor size={20} />
                     <span className="text-xs font-sans tracking-[0.3em] uppercase border-b border-gold-500/30 pb-1">
@@ -169,8 +296,10 @@ export const ContentOverlay: React.FC<Props> = ({ card, initialRect, onClose })
                     </p>
                 </div>
 
+                {card.feature === 'traceability' && <TraceabilityLookup />}
+
                 <div className="mt-16 overlay-animate-up flex gap-6">
-                    <button className="group relative px-8 py-4 bg-transparent overflow-hidden border border-gold-500/30 text-gold-400 font-sans text-xs tracking-[0.2em] transition-all hover:border-gold-500">
+                    <button onClick={() => setIsRequestOpen(true)} className="group relative px-8 py-4 bg-transparent overflow-hidden border border-gold-500/30 text-gold-400 font-sans text-xs tracking-[0.2em] transition-all hover:border-gold-500">
                     <span className="relative z-10 group-hover:text-navy-950 transition-colors duration-300">REQUEST SHEET</span>
                     <div className="absolute inset-0 bg-gold-500 transform scale-x-0 group-hover:scale-x-100 transition-transform origin-left duration-500 ease-out"></div>
                     </button>
@@ -184,81 +313,228 @@ export const ContentOverlay: React.FC<Props> = ({ card, initialRect, onClose })
       {isCatalog && (
           <div ref={contentElementsRef} className="w-full h-full flex flex-col p-8 md:p-12 relative bg-navy-950/95 backdrop-blur-lg">
               {/* Header Area */}
-              <div className="flex flex-col md:flex-row justify-between items-start md:items-end mb-12 border-b border-white/10 pb-8 overlay-animate-up shrink-0">
+              <div className="flex flex-col md:flex-row justify-between items-start md:items-end mb-6 border-b border-white/10 pb-8 overlay-animate-up shrink-0">
                   <div>
                     <div className="flex items-center gap-3 text-gold-500 mb-4">
                         <Fish size={20} />
                         <span className="text-xs font-sans tracking-[0.3em] uppercase">Premium Inventory</span>
+                        <span
+                          className={`flex items-center gap-2 ml-3 font-mono text-[10px] tracking-[0.2em] uppercase ${feedStatus === 'live' ? 'text-emerald-300' : 'text-parchment/40'}`}
+                          aria-live="polite"
+                        >
+                            <span className={`w-1.5 h-1.5 rounded-full ${feedStatus === 'live' ? 'bg-emerald-400 animate-pulse' : feedStatus === 'connecting' ? 'bg-gold-500/60' : 'bg-parchment/30'}`} />
+                            {FEED_STATUS_LABELS[feedStatus]}
+                        </span>
                     </div>
                     <h2 className="text-5xl md:text-7xl font-serif text-parchment">The Premium Catch</h2>
                   </div>
-                  <p className="text-gold-400/60 font-mono text-xs mt-4 md:mt-0 text-right hidden md:block">
-                      SCROLL TO EXPLORE <ArrowRight size={12} className="inline ml-2" /> <br/> 
-                      IVP • CO-TREATED • FROZEN AT SEA
-                  </p>
-              </div>
-
-              {/* Carousel Container */}
-              <div 
-                ref={carouselRef}
-                className="flex-1 overflow-x-auto overflow-y-hidden flex gap-8 pb-8 scrollbar-hide cursor-grab active:cursor-grabbing items-center"
-                onWheel={handleWheel}
-              >
-                  {/* Intro Block inside Carousel */}
-                  <div className="min-w-[300px] md:min-w-[400px] flex flex-col justify-center pr-12 product-card shrink-0">
-                      <p className="text-2xl text-parchment/80 font-serif italic leading-relaxed">
-                        "{card.fullContent}"
+                  <div className="flex flex-col items-start md:items-end gap-4 mt-4 md:mt-0 mr-0 md:mr-20">
+                      <p className="text-gold-400/60 font-mono text-xs text-right hidden md:block">
+                          SCROLL TO EXPLORE <ArrowRight size={12} className="inline ml-2" /> <br/> 
+                          IVP • CO-TREATED • FROZEN AT SEA
                       </p>
-                      <div className="mt-8 w-24 h-[1px] bg-gold-500"></div>
+                      <div className="flex gap-3">
+                          <div className="flex border border-white/10" role="group" aria-label="Catalog view">
+                              {([
+                                ['carousel', GalleryHorizontal, 'Carousel'],
+                                ['matrix', Table2, 'Matrix']
+                              ] as const).map(([view, Icon, label]) => (
+                                  <button
+                                    key={view}
+                                    onClick={() => setCatalogView(view)}
+                                    aria-pressed={catalogView === view}
+                                    title={`${label} view`}
+                                    className={`px-3 py-3 transition-colors ${catalogView === view ? 'bg-gold-500/20 text-gold-400' : 'text-gold-400/50 hover:text-gold-400'}`}
+                                  >
+                                      <Icon size={14} />
+                                  </button>
+                              ))}
+                          </div>
+                          <button
+                            onClick={() => printSpecSheets({
+                              title: `BTF Catalog - ${card.title}`,
+                              productIds: hasActiveFilters(filters) ? visibleProducts.map(p => p.id) : null
+                            })}
+                            className="flex items-center gap-2 px-4 py-3 border border-white/10 text-gold-400/70 font-sans text-xs tracking-[0.2em] hover:border-gold-500/50 hover:text-gold-400 transition-colors"
+                          >
+                              <Printer size={14} /> PRINT CATALOG
+                          </button>
+                          <button onClick={() => setIsRequestOpen(true)} className="group relative px-6 py-3 bg-transparent overflow-hidden border border-gold-500/30 text-gold-400 font-sans text-xs tracking-[0.2em] transition-all hover:border-gold-500">
+                              <span className="relative z-10 group-hover:text-navy-950 transition-colors duration-300">
+                                  REQUEST SHEET{selectedProduct ? ` • ${selectedProduct.name.toUpperCase()}` : ''}
+                              </span>
+                              <div className="absolute inset-0 bg-gold-500 transform scale-x-0 group-hover:scale-x-100 transition-transform origin-left duration-500 ease-out"></div>
+                          </button>
+                      </div>
                   </div>
+              </div>
 
-                  {/* Product Cards */}
-                  {card.productList?.map((product, idx) => (
-                      <div key={idx} className="min-w-[320px] md:min-w-[380px] h-[65vh] bg-navy-900/40 border border-white/5 group hover:border-gold-500/50 transition-all duration-500 product-card flex flex-col shrink-0 relative">
+              {/* The matrix lists every product and sorts by its own columns */}
+              {catalogView === 'carousel' && (
+                <CatalogControls
+                  facets={facets}
+                  filters={filters}
+                  sort={sort}
+                  resultCount={visibleProducts.length}
+                  totalCount={products.length}
+                  onFiltersChange={setFilters}
+                  onSortChange={setSort}
+                />
+              )}
+
+              {/* Carousel Container, or the Inventory Matrix table */}
+              {catalogView === 'carousel' ? (
+                <div 
+                  ref={carouselRef}
+                  className="flex-1 overflow-x-auto overflow-y-hidden flex gap-8 pb-8 scrollbar-hide cursor-grab active:cursor-grabbing items-center"
+                  onWheel={handleWheel}
+                >
+                    {/* Intro Block inside Carousel */}
+                    <div className="min-w-[300px] md:min-w-[400px] flex flex-col justify-center pr-12 product-card shrink-0">
+                        <p className="text-2xl text-parchment/80 font-serif italic leading-relaxed">
+                          "{card.fullContent}"
+                        </p>
+                        <div className="mt-8 w-24 h-[1px] bg-gold-500"></div>
+                    </div>
+
+                    {/* Product Cards */}
+                    {visibleProducts.length === 0 && (
+                        <div className="min-w-[320px] md:min-w-[380px] h-[55vh] border border-dashed border-white/10 flex flex-col items-center justify-center text-center p-8 shrink-0">
+                            <SearchX size={32} className="text-gold-500/50 mb-4" strokeWidth={1} />
+                            <p className="font-serif text-2xl text-parchment mb-2">No matching catch</p>
+                            <p className="text-sm text-parchment/50 mb-6">Nothing in the inventory fits these filters.</p>
+                            <button
+                              onClick={() => setFilters(EMPTY_FILTERS)}
+                              className="px-6 py-2 border border-gold-500/30 text-gold-400 text-xs tracking-[0.2em] hover:border-gold-500 transition-colors"
+                            >
+                                CLEAR FILTERS
+                            </button>
+                        </div>
+                    )}
+
+                    {visibleProducts.map((product) => (
+                        <div
+                          key={product.id}
+                          data-product-id={product.id}
+                          onClick={() => onSelectProduct?.(product)}
+                          className={`min-w-[320px] md:min-w-[380px] h-[55vh] bg-navy-900/40 border ${product.id === selectedProductId ? 'border-gold-500' : 'border-white/5'} group hover:border-gold-500/50 transition-all duration-500 product-card flex flex-col shrink-0 relative cursor-pointer`}
+                        >
                           
-                          {/* Product Image */}
-                          <div className="h-3/5 overflow-hidden relative">
-                              <div className="absolute inset-0 bg-navy-950/20 z-10 group-hover:bg-transparent transition-colors duration-500"></div>
-                              <img 
-                                src={product.image} 
-                                alt={product.name} 
-                                className="w-full h-full object-cover transform group-hover:scale-110 transition-transform duration-1000 ease-out"
-                              />
-                              <div className="absolute bottom-0 left-0 bg-navy-950/90 backdrop-blur px-4 py-2 text-gold-400 font-mono text-xs z-20 border-t border-r border-gold-500/20">
-                                  {String(idx + 1).padStart(2, '0')}
-                              </div>
-                          </div>
+                            {/* Product Image */}
+                            <div className="h-3/5 overflow-hidden relative">
+                                <div className="absolute inset-0 bg-navy-950/20 z-10 group-hover:bg-transparent transition-colors duration-500"></div>
+                                <img 
+                                  src={product.image} 
+                                  alt={product.name} 
+                                  className="w-full h-full object-cover transform group-hover:scale-110 transition-transform duration-1000 ease-out"
+                                />
+                                <div className="absolute bottom-0 left-0 bg-navy-950/90 backdrop-blur px-4 py-2 text-gold-400 font-mono text-xs z-20 border-t border-r border-gold-500/20">
+                                    {String(products.indexOf(product) + 1).padStart(2, '0')}
+                                </div>
+                                {stock[product.id] && (
+                                    <StockBadge update={stock[product.id]} className="absolute top-4 left-4 z-20" />
+                                )}
+                            </div>
 
-                          {/* Info */}
-                          <div className="p-8 flex-1 flex flex-col relative">
-                              <h3 className="text-3xl font-serif text-parchment mb-2">{product.name}</h3>
-                              <p className="text-sm text-parchment/60 leading-relaxed mb-6 border-b border-white/5 pb-6">
-                                  {product.description}
-                              </p>
-
-                              {/* Specs */}
-                              <div className="mt-auto space-y-3">
-                                  {product.specs.map((spec, sIdx) => (
-                                      <div key={sIdx} className="flex justify-between items-center text-xs font-sans tracking-wider group/spec">
-                                          <span className="text-gold-500/70 uppercase flex items-center gap-2">
-                                            {sIdx === 0 && <Fish size={12} className="opacity-50 group-hover/spec:opacity-100"/>}
-                                            {sIdx === 1 && <Scale size={12} className="opacity-50 group-hover/spec:opacity-100"/>}
-                                            {sIdx === 2 && <Box size={12} className="opacity-50 group-hover/spec:opacity-100"/>}
-                                            {spec.label}
-                                          </span>
-                                          <span className="text-parchment font-medium">{spec.value}</span>
-                                      </div>
-                                  ))}
-                              </div>
-                          </div>
-                      </div>
-                  ))}
+                            {/* Info */}
+                            <div className="p-8 flex-1 flex flex-col relative">
+                                <div className="flex justify-between items-start gap-4 mb-2">
+                                    <h3 className="text-3xl font-serif text-parchment">{product.name}</h3>
+                                    <div className="mt-2 shrink-0 flex gap-3">
+                                      <PinButton
+                                        product={product}
+                                        pinned={pinnedIds.includes(product.id)}
+                                        limitReached={isPinLimitReached}
+                                        onToggle={togglePin}
+                                      />
+                                      <button
+                                        onClick={(e) => {
+                                          e.stopPropagation();
+                                          printSpecSheets({ title: specSheetTitle(product.name), productIds: [product.id] });
+                                        }}
+                                        className="text-gold-500/50 hover:text-gold-400 transition-colors"
+                                        title="Download spec sheet (PDF)"
+                                        aria-label={`Download ${product.name} spec sheet`}
+                                      >
+                                          <FileDown size={18} />
+                                      </button>
+                                      <a
+                                        href={formatRoute({ name: 'sheet', productId: product.id })}
+                                        onClick={(e) => {
+                                          e.stopPropagation();
+                                          if (!onOpenSheet) return;
+                                          e.preventDefault();
+                                          onOpenSheet(product);
+                                        }}
+                                        className="text-gold-500/50 hover:text-gold-400 transition-colors"
+                                        title="Open spec sheet page"
+                                        aria-label={`Open ${product.name} spec sheet page`}
+                                      >
+                                          <FileText size={18} />
+                                      </a>
+                                    </div>
+                                </div>
+                                <p className="text-sm text-parchment/60 leading-relaxed mb-6 border-b border-white/5 pb-6">
+                                    {product.description}
+                                </p>
+
+                                {/* Specs */}
+                                <div className="mt-auto space-y-3">
+                                    {toSpecRows(product.specs).map((spec) => {
+                                        const Icon = SPEC_ICONS[spec.key];
+                                        return (
+                                            <div key={spec.key} className="flex justify-between items-center text-xs font-sans tracking-wider group/spec">
+                                                <span className="text-gold-500/70 uppercase flex items-center gap-2">
+                                                  <Icon size={12} className="opacity-50 group-hover/spec:opacity-100"/>
+                                                  {spec.label}
+                                                </span>
+                                                <span className="text-parchment font-medium text-right">{spec.value}</span>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                        </div>
+                    ))}
                   
-                  {/* Spacer for end of scroll */}
-                  <div className="min-w-[100px] shrink-0"></div>
-              </div>
+                    {/* Spacer for end of scroll */}
+                    <div className="min-w-[100px] shrink-0"></div>
+                </div>
+              ) : (
+                <InventoryMatrix
+                  products={products}
+                  selectedProductId={selectedProductId}
+                  onSelectProduct={onSelectProduct}
+                  pinnedIds={pinnedIds}
+                  onTogglePin={togglePin}
+                  stock={stock}
+                />
+              )}
+
+              <CompareTray
+                products={pinnedProducts}
+                onUnpin={togglePin}
+                onClear={() => setPinnedIds([])}
+                onCompare={() => setIsCompareOpen(true)}
+              />
           </div>
       )}
+
+      {isCompareOpen && pinnedProducts.length >= MIN_COMPARE && (
+        <ComparePanel
+          products={pinnedProducts}
+          onUnpin={togglePin}
+          onClose={() => setIsCompareOpen(false)}
+        />
+      )}
+
+      {isRequestOpen && (
+        <SpecRequestForm
+          card={card}
+          product={selectedProduct}
+          onClose={() => setIsRequestOpen(false)}
+        />
+      )}
     </div>
   );
 };
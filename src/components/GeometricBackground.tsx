@@ -1,23 +1,32 @@
 
-import React, { useEffect, useRef, useCallback } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import gsap from 'gsap';
+import { watchContextLoss } from '../render/contextLoss';
+import { GeometricEffect, sceneAt } from '../scene/scenes';
+import { getScene } from '../scene/sceneBlend';
+import { getInput } from '../input/inputStore';
+import { getActiveSectionProgress } from '../scene/sectionRegistry';
+import { LAYER_PRIORITY, registerLayer } from '../render/frameScheduler';
+import { useQuality } from '../render/useQuality';
+import {
+  FULLSCREEN_VERTEX_SHADER,
+  bindUniforms,
+  createFullscreenQuad,
+  createShaderProgram,
+  deleteShaderProgram,
+  type FullscreenQuad,
+  type ShaderProgram,
+  type UniformBinder
+} from '../render/webgl';
 
 interface Props {
   isExpanded: boolean;
   sectionIndex?: number;
-  scrollProgress?: number;
 }
 
 // Sacred Oceanic Emergence - WebGL Shader System
 // A Paul Phillips Manifestation
 
-const VERTEX_SHADER = `
-  attribute vec2 a_position;
-  void main() {
-    gl_Position = vec4(a_position, 0.0, 1.0);
-  }
-`;
-
 const FRAGMENT_SHADER = `
   precision highp float;
 
@@ -25,7 +34,7 @@ const FRAGMENT_SHADER = `
   uniform float u_time;
   uniform float u_structure;        // 0.0 = chaos, 1.0 = sacred geometry
   uniform float u_scrollProgress;   // 0.0 to 1.0 overall scroll
-  uniform int u_sectionId;          // Which section is active
+  uniform int u_effect;             // Which pattern to draw, see EFFECT_IDS
   uniform vec2 u_mousePos;          // Normalized mouse position
   uniform float u_mouseInfluence;   // How much mouse affects the field
   uniform float u_expansion;        // Card expansion state
@@ -358,26 +367,26 @@ const FRAGMENT_SHADER = `
     vec2 toCenter = center - uvAspect;
     vec2 uvExpanded = uvAspect + toCenter * expansionPull;
 
-    // Select effect based on section
+    // Select effect from the section's scene
     vec3 color;
 
-    if (u_sectionId == 0) {
-      // Hero - surface chaos
+    if (u_effect == 0) {
+      // Surface chaos
       color = heroEffect(uvExpanded, animTime, u_structure);
-    } else if (u_sectionId == 1) {
-      // Frozen Standard - crystalline
+    } else if (u_effect == 1) {
+      // Crystalline
       color = frozenEffect(uvExpanded, animTime, u_structure);
-    } else if (u_sectionId == 2) {
-      // Product - lotus emergence
+    } else if (u_effect == 2) {
+      // Lotus emergence
       color = productEffect(uvExpanded, animTime, u_structure);
-    } else if (u_sectionId == 3) {
-      // Catalog - full mandala
+    } else if (u_effect == 3) {
+      // Full mandala
       color = catalogEffect(uvExpanded, animTime, u_structure);
-    } else if (u_sectionId == 4) {
-      // Ethos - chain geometry
+    } else if (u_effect == 4) {
+      // Chain geometry
       color = ethosEffect(uvExpanded, animTime, u_structure);
     } else {
-      // Default/Footer - calm depths
+      // Calm depths
       float noise = fbm(vec3(uvExpanded * 2.0, animTime * 0.05), 3);
       float lotus = lotusMandala(uvExpanded - 0.5, animTime, 36.0, 3.0);
 
@@ -399,76 +408,46 @@ const FRAGMENT_SHADER = `
   }
 `;
 
+// SceneConfig.geometricEffect -> u_effect
+const EFFECT_IDS: Record<GeometricEffect, number> = {
+  surface: 0,
+  crystal: 1,
+  lotus: 2,
+  mandala: 3,
+  chain: 4,
+  depths: 5
+};
+
+// Share of the way from the scene's structure to full geometry reached by the
+// end of a section
+const SECTION_STRUCTURE_GAIN = 0.4;
+
 export const GeometricBackground: React.FC<Props> = ({
   isExpanded,
-  sectionIndex = 0,
-  scrollProgress = 0
+  sectionIndex = 0
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const glRef = useRef<WebGLRenderingContext | null>(null);
   const programRef = useRef<WebGLProgram | null>(null);
-  const animationRef = useRef<number>(0);
-  const startTimeRef = useRef<number>(Date.now());
-
-  // Uniform locations
-  const uniformsRef = useRef<{
-    resolution: WebGLUniformLocation | null;
-    time: WebGLUniformLocation | null;
-    structure: WebGLUniformLocation | null;
-    scrollProgress: WebGLUniformLocation | null;
-    sectionId: WebGLUniformLocation | null;
-    mousePos: WebGLUniformLocation | null;
-    mouseInfluence: WebGLUniformLocation | null;
-    expansion: WebGLUniformLocation | null;
-    noiseScale: WebGLUniformLocation | null;
-    noiseSpeed: WebGLUniformLocation | null;
-    chaosHue: WebGLUniformLocation | null;
-    structureHue: WebGLUniformLocation | null;
-    accentHue: WebGLUniformLocation | null;
-  }>({
-    resolution: null,
-    time: null,
-    structure: null,
-    scrollProgress: null,
-    sectionId: null,
-    mousePos: null,
-    mouseInfluence: null,
-    expansion: null,
-    noiseScale: null,
-    noiseSpeed: null,
-    chaosHue: null,
-    structureHue: null,
-    accentHue: null
-  });
+  const [contextLost, setContextLost] = useState(false);
+
+  const { settings: quality } = useQuality();
+  const qualityRef = useRef(quality);
+  qualityRef.current = quality;
 
   // Animation state
   const stateRef = useRef({
     structure: 0.0,
     targetStructure: 0.0,
-    sectionId: 0,
+    sceneStructure: 0.0,
+    effect: EFFECT_IDS.surface,
     mouseX: 0.5,
     mouseY: 0.5,
     expansion: 0.0,
-    targetExpansion: 0.0
+    targetExpansion: 0.0,
+    expanded: false
   });
 
-  // Compile shader
-  const compileShader = useCallback((gl: WebGLRenderingContext, type: number, source: string): WebGLShader | null => {
-    const shader = gl.createShader(type);
-    if (!shader) return null;
-
-    gl.shaderSource(shader, source);
-    gl.compileShader(shader);
-
-    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
-      console.error('Shader compile error:', gl.getShaderInfoLog(shader));
-      gl.deleteShader(shader);
-      return null;
-    }
-
-    return shader;
-  }, []);
-
   // Initialize WebGL
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -487,74 +466,52 @@ export const GeometricBackground: React.FC<Props> = ({
 
     glRef.current = gl;
 
-    // Compile shaders
-    const vertexShader = compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
-    const fragmentShader = compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
-
-    if (!vertexShader || !fragmentShader) return;
-
-    // Create program
-    const program = gl.createProgram();
-    if (!program) return;
-
-    gl.attachShader(program, vertexShader);
-    gl.attachShader(program, fragmentShader);
-    gl.linkProgram(program);
-
-    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
-      console.error('Program link error:', gl.getProgramInfoLog(program));
-      return;
-    }
+    let resources: { shaderProgram: ShaderProgram; quad: FullscreenQuad; uniforms: UniformBinder } | null = null;
+    // Scheduler time in seconds, so the pattern holds still while paused
+    let elapsed = 0;
+
+    // Builds program, geometry and uniforms. Runs on mount and again when a
+    // lost context is restored, since every GL object died with it.
+    const buildProgram = () => {
+      const shaderProgram = createShaderProgram(gl, {
+        label: 'geometric',
+        vertex: FULLSCREEN_VERTEX_SHADER,
+        fragment: FRAGMENT_SHADER
+      });
+      if (!shaderProgram) return false;
 
-    programRef.current = program;
-    gl.useProgram(program);
-
-    // Set up geometry (fullscreen quad)
-    const positions = new Float32Array([
-      -1, -1,
-       1, -1,
-      -1,  1,
-       1,  1
-    ]);
-
-    const positionBuffer = gl.createBuffer();
-    gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
-    gl.bufferData(gl.ARRAY_BUFFER, positions, gl.STATIC_DRAW);
-
-    const positionLocation = gl.getAttribLocation(program, 'a_position');
-    gl.enableVertexAttribArray(positionLocation);
-    gl.vertexAttribPointer(positionLocation, 2, gl.FLOAT, false, 0, 0);
-
-    // Get uniform locations
-    uniformsRef.current = {
-      resolution: gl.getUniformLocation(program, 'u_resolution'),
-      time: gl.getUniformLocation(program, 'u_time'),
-      structure: gl.getUniformLocation(program, 'u_structure'),
-      scrollProgress: gl.getUniformLocation(program, 'u_scrollProgress'),
-      sectionId: gl.getUniformLocation(program, 'u_sectionId'),
-      mousePos: gl.getUniformLocation(program, 'u_mousePos'),
-      mouseInfluence: gl.getUniformLocation(program, 'u_mouseInfluence'),
-      expansion: gl.getUniformLocation(program, 'u_expansion'),
-      noiseScale: gl.getUniformLocation(program, 'u_noiseScale'),
-      noiseSpeed: gl.getUniformLocation(program, 'u_noiseSpeed'),
-      chaosHue: gl.getUniformLocation(program, 'u_chaosHue'),
-      structureHue: gl.getUniformLocation(program, 'u_structureHue'),
-      accentHue: gl.getUniformLocation(program, 'u_accentHue')
+      const state = stateRef.current;
+      resources = {
+        shaderProgram,
+        quad: createFullscreenQuad(gl, shaderProgram.program),
+        uniforms: bindUniforms(gl, shaderProgram.program, {
+          u_resolution: { type: 'vec2', source: () => [canvas.width, canvas.height] },
+          u_time: { type: 'float', source: () => elapsed },
+          u_structure: { type: 'float', source: () => state.structure },
+          u_scrollProgress: { type: 'float', source: () => getInput().scrollProgress },
+          u_effect: { type: 'int', source: () => state.effect },
+          u_mousePos: { type: 'vec2', source: () => [state.mouseX, state.mouseY] },
+          u_expansion: { type: 'float', source: () => state.expansion },
+          u_mouseInfluence: { type: 'float', source: 0.15 },
+          u_noiseScale: { type: 'float', source: 0.003 },
+          u_noiseSpeed: { type: 'float', source: 0.15 },
+          u_chaosHue: { type: 'float', source: () => getScene().palette.chaosHue },
+          u_structureHue: { type: 'float', source: () => getScene().palette.structureHue },
+          u_accentHue: { type: 'float', source: () => getScene().palette.accentHue }
+        })
+      };
+      programRef.current = shaderProgram.program;
+      return true;
     };
 
-    // Set static uniforms
-    gl.uniform1f(uniformsRef.current.noiseScale, 0.003);
-    gl.uniform1f(uniformsRef.current.noiseSpeed, 0.15);
-    gl.uniform1f(uniformsRef.current.chaosHue, 160.0);
-    gl.uniform1f(uniformsRef.current.structureHue, 280.0);
-    gl.uniform1f(uniformsRef.current.accentHue, 45.0);
-    gl.uniform1f(uniformsRef.current.mouseInfluence, 0.15);
+    if (!buildProgram()) return;
 
-    // Handle resize
+    // Handle resize; resolution follows the quality governor
+    let appliedPixelRatio = qualityRef.current.pixelRatio;
     const resize = () => {
-      const dpr = Math.min(window.devicePixelRatio, 2);
-      canvas.width = window.innerWidth * dpr;
-      canvas.height = window.innerHeight * dpr;
+      appliedPixelRatio = qualityRef.current.pixelRatio;
+      canvas.width = Math.round(window.innerWidth * appliedPixelRatio);
+      canvas.height = Math.round(window.innerHeight * appliedPixelRatio);
       canvas.style.width = window.innerWidth + 'px';
       canvas.style.height = window.innerHeight + 'px';
       gl.viewport(0, 0, canvas.width, canvas.height);
@@ -570,58 +527,71 @@ export const GeometricBackground: React.FC<Props> = ({
     };
     window.addEventListener('mousemove', handleMouseMove);
 
-    // Animation loop
-    const render = () => {
-      const gl = glRef.current;
-      const program = programRef.current;
-      const uniforms = uniformsRef.current;
+    const unwatchContext = watchContextLoss(canvas, {
+      onLost: () => {
+        resources = null;
+        programRef.current = null;
+        setContextLost(true);
+      },
+      onRestored: () => {
+        setContextLost(!buildProgram());
+        resize();
+      }
+    });
+
+    // Stays registered while the context is lost, so drawing resumes on restore
+    const unregister = registerLayer('geometric', ({ delta }) => {
       const state = stateRef.current;
+      if (!resources || gl.isContextLost()) return;
+      if (qualityRef.current.pixelRatio !== appliedPixelRatio) resize();
+
+      elapsed += delta / 1000;
 
-      if (!gl || !program) return;
+      // The pattern firms up as the reader works through the section, the
+      // same in every section however many cards there are
+      if (!state.expanded) {
+        state.targetStructure = state.sceneStructure +
+          (1 - state.sceneStructure) * SECTION_STRUCTURE_GAIN * getActiveSectionProgress();
+      }
 
       // Smooth interpolation
       state.structure += (state.targetStructure - state.structure) * 0.05;
       state.expansion += (state.targetExpansion - state.expansion) * 0.08;
 
-      const time = (Date.now() - startTimeRef.current) / 1000;
-
-      // Update uniforms
-      gl.uniform2f(uniforms.resolution, canvasRef.current!.width, canvasRef.current!.height);
-      gl.uniform1f(uniforms.time, time);
-      gl.uniform1f(uniforms.structure, state.structure);
-      gl.uniform1f(uniforms.scrollProgress, scrollProgress);
-      gl.uniform1i(uniforms.sectionId, state.sectionId);
-      gl.uniform2f(uniforms.mousePos, state.mouseX, state.mouseY);
-      gl.uniform1f(uniforms.expansion, state.expansion);
-
-      // Draw
-      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
-
-      animationRef.current = requestAnimationFrame(render);
-    };
-
-    render();
+      resources.uniforms.upload();
+      resources.quad.draw();
+    }, { priority: LAYER_PRIORITY.normal });
 
     return () => {
-      cancelAnimationFrame(animationRef.current);
+      unregister();
+      unwatchContext();
       window.removeEventListener('resize', resize);
       window.removeEventListener('mousemove', handleMouseMove);
+
+      if (resources && !gl.isContextLost()) {
+        resources.quad.dispose();
+        deleteShaderProgram(gl, resources.shaderProgram);
+      }
+      resources = null;
+      programRef.current = null;
     };
-  }, [compileShader]);
+  }, []);
 
   // Update section and structure based on props
   useEffect(() => {
     const state = stateRef.current;
-    state.sectionId = sectionIndex;
+    const scene = sceneAt(sectionIndex);
 
-    // Structure levels per section
-    const structureLevels = [0.1, 0.4, 0.6, 0.85, 0.7, 0.95];
-    state.targetStructure = structureLevels[Math.min(sectionIndex, structureLevels.length - 1)] || 0.5;
+    // Pattern and structure level come from the section's scene
+    state.effect = EFFECT_IDS[scene.geometricEffect];
+    state.sceneStructure = scene.structure;
+    state.targetStructure = scene.structure;
   }, [sectionIndex]);
 
   // Handle expansion state
   useEffect(() => {
     stateRef.current.targetExpansion = isExpanded ? 1.0 : 0.0;
+    stateRef.current.expanded = isExpanded;
 
     // When expanded, boost structure toward full mandala
     if (isExpanded) {
@@ -633,29 +603,29 @@ export const GeometricBackground: React.FC<Props> = ({
     }
   }, [isExpanded]);
 
-  // Update scroll progress
-  useEffect(() => {
-    // Scroll progress affects base structure level
-    const baseStructure = 0.1 + scrollProgress * 0.6;
-    if (!isExpanded) {
-      stateRef.current.targetStructure = Math.max(
-        stateRef.current.targetStructure,
-        baseStructure
-      );
-    }
-  }, [scrollProgress, isExpanded]);
-
   return (
-    <div className="fixed inset-0 z-0 pointer-events-none overflow-hidden">
+    <div className="fixed inset-0 -z-10 pointer-events-none overflow-hidden">
       <canvas
         ref={canvasRef}
+        data-gl-layer="geometric"
+        data-context-lost={contextLost || undefined}
         className="w-full h-full"
         style={{
           position: 'absolute',
           top: 0,
-          left: 0
+          left: 0,
+          visibility: contextLost ? 'hidden' : 'visible'
         }}
       />
+      {/* Static stand-in while the WebGL context is lost */}
+      {contextLost && (
+        <div
+          className="absolute inset-0"
+          style={{
+            background: 'radial-gradient(ellipse at 50% 40%, #0b2a3f 0%, #061a2b 55%, #020c1b 100%)'
+          }}
+        />
+      )}
       {/* Overlay vignette for extra depth */}
       <div
         className="absolute inset-0 pointer-events-none"
@@ -1,17 +1,18 @@
 import React, { useEffect, useRef, useCallback } from 'react';
+import { FrameInfo, LAYER_PRIORITY, registerLayer } from '../render/frameScheduler';
+import { useQuality } from '../render/useQuality';
+import { CompassLayerKind } from '../scene/scenes';
+import { getScene } from '../scene/sceneBlend';
+import { getInput } from '../input/inputStore';
 
+// Scroll, pointer and hover/click come from the input store each frame
 interface GeometricCompassRoseProps {
-  scrollProgress: number;
-  sectionIndex: number;
   className?: string;
-  isHovering?: boolean;
-  isClicked?: boolean;
   isExpanded?: boolean;
-  mousePosition?: { x: number; y: number };
 }
 
 interface CompassLayer {
-  type: 'outerRing' | 'cardinalPoints' | 'intermediatePoints' | 'innerRose' | 'centerStar' | 'ornamentals' | 'decorativeCircles';
+  type: CompassLayerKind;
   baseRadius: number;
   strokeWidth: number;
   color: string;
@@ -29,20 +30,15 @@ interface CompassLayer {
 }
 
 const GeometricCompassRose: React.FC<GeometricCompassRoseProps> = ({
-  scrollProgress,
-  sectionIndex,
   className = "",
-  isHovering = false,
-  isClicked = false,
-  isExpanded = false,
-  mousePosition = { x: 0, y: 0 }
+  isExpanded = false
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const animationFrameRef = useRef<number>();
   const layersRef = useRef<CompassLayer[]>([]);
   const timeRef = useRef<number>(0);
-  const lastScrollProgress = useRef<number>(0);
   const scrollVelocity = useRef<number>(0);
+  // shadowBlur is the most expensive part of the compass on slow machines
+  const { settings: { compassGlow } } = useQuality();
 
   // Professional nautical color palette
   const NAUTICAL_PALETTE = {
@@ -182,17 +178,17 @@ const GeometricCompassRose: React.FC<GeometricCompassRoseProps> = ({
   }, []);
 
   // Calculate emergent motion with proper timing
-  const updateMotion = useCallback(() => {
-    timeRef.current += 0.016; // ~60fps increment
+  const updateMotion = useCallback((delta: number) => {
+    timeRef.current += delta / 1000;
     
-    // Calculate scroll velocity for reactive motion
-    const velocity = Math.abs(scrollProgress - lastScrollProgress.current);
+    // Scroll velocity for reactive motion, as progress per 60fps frame
+    const velocity = Math.abs(getInput().scrollVelocity) / 60;
     scrollVelocity.current = scrollVelocity.current * 0.95 + velocity * 0.05;
-    lastScrollProgress.current = scrollProgress;
-  }, [scrollProgress]);
+  }, []);
 
   // Get section-specific transformations with enhanced movement and interactions
   const getSectionTransform = useCallback((layer: CompassLayer, layerIndex: number) => {
+    const { scrollProgress, hovering: isHovering, clicked: isClicked, pointer: mousePosition } = getInput();
     const baseTime = timeRef.current * layer.rotationSpeed * layer.rotationDirection;
     const scrollMotion = scrollProgress * Math.PI * 2 * layer.scrollSensitivity;
     const velocityBoost = scrollVelocity.current * 20;
@@ -209,7 +205,7 @@ const GeometricCompassRose: React.FC<GeometricCompassRoseProps> = ({
     // Mouse proximity effect for dynamic response
     const canvas = canvasRef.current;
     let proximityEffect = 1;
-    if (canvas && mousePosition) {
+    if (canvas) {
       const centerX = canvas.width / 2;
       const centerY = canvas.height / 2;
       const distance = Math.sqrt(
@@ -220,55 +216,21 @@ const GeometricCompassRose: React.FC<GeometricCompassRoseProps> = ({
       proximityEffect = 1 + (1 - Math.min(distance / maxDistance, 1)) * 0.2;
     }
     
-    // Section-specific enhancements
-    let radiusMultiplier = 1.0 + breathing;
-    let alphaMultiplier = 1.0;
-    let rotationMultiplier = hoverBoost * clickFlourish * expandEffect * proximityEffect;
-    
-    switch (sectionIndex) {
-      case 0: // Hero - subtle presence
-        alphaMultiplier = 0.7;
-        break;
-        
-      case 1: // Frozen Standard - gentle expansion
-        radiusMultiplier = 1.0 + velocityBoost * 0.1;
-        alphaMultiplier = 0.8 + velocityBoost * 0.2;
-        break;
-        
-      case 2: // Yellowfin Tuna - inner layers activation
-        if (layer.type === 'innerRose' || layer.type === 'centerStar') {
-          radiusMultiplier = 1.1 + velocityBoost * 0.15;
-          alphaMultiplier = 1.2;
-          rotationMultiplier = 1.3;
-        }
-        break;
-        
-      case 3: // Premium Catch - ornamental enhancement
-        if (layer.type === 'ornamentals' || layer.type === 'decorativeCircles') {
-          radiusMultiplier = 1.15 + velocityBoost * 0.2;
-          alphaMultiplier = 1.1;
-        }
-        break;
-        
-      case 4: // Vertical Integration - full compass activation
-        radiusMultiplier = 1.05 + velocityBoost * 0.3;
-        alphaMultiplier = 0.9 + velocityBoost * 0.4;
-        rotationMultiplier = 1.2;
-        break;
-        
-      default:
-        alphaMultiplier = 0.8;
-    }
-    
+    // Section-specific enhancements from the blended scene (scene/scenes.ts)
+    const section = getScene().compass[layer.type];
+    const radiusMultiplier = section.radius + velocityBoost * section.radiusVelocity + breathing;
+    const alphaMultiplier = section.alpha + velocityBoost * section.alphaVelocity;
+    const rotationMultiplier = hoverBoost * clickFlourish * expandEffect * proximityEffect * section.rotation;
+
     return {
       radius: layer.baseRadius * radiusMultiplier * proximityEffect,
       alpha: layer.alpha * alphaMultiplier * (1 - layer.parallaxDepth * 0.2) * (1 + (clickFlourish - 1) * 0.5),
       rotation: (baseTime + scrollMotion + oscillation) * rotationMultiplier,
       scale: (1 + velocityBoost * 0.05) * expandEffect,
       strokeWidth: layer.strokeWidth * clickFlourish,
-      glow: isHovering || isClicked || isExpanded
+      glow: (isHovering || isClicked || isExpanded) && compassGlow > 0
     };
-  }, [sectionIndex, scrollProgress, scrollVelocity, isHovering, isClicked, isExpanded, mousePosition]);
+  }, [isExpanded, compassGlow]);
 
   // Draw outer decorative ring with enhanced effects
   const drawOuterRing = (ctx: CanvasRenderingContext2D, centerX: number, centerY: number, layer: CompassLayer, transform: any) => {
@@ -279,7 +241,7 @@ const GeometricCompassRose: React.FC<GeometricCompassRoseProps> = ({
     // Add glow effect for interactions
     if (transform.glow) {
       ctx.shadowColor = layer.color;
-      ctx.shadowBlur = 15;
+      ctx.shadowBlur = 15 * compassGlow;
       ctx.shadowOffsetX = 0;
       ctx.shadowOffsetY = 0;
     }
@@ -331,7 +293,7 @@ const GeometricCompassRose: React.FC<GeometricCompassRoseProps> = ({
     
     if (transform.glow) {
       ctx.shadowColor = layer.color;
-      ctx.shadowBlur = 12;
+      ctx.shadowBlur = 12 * compassGlow;
     }
     
     ctx.strokeStyle = layer.color;
@@ -373,7 +335,7 @@ const GeometricCompassRose: React.FC<GeometricCompassRoseProps> = ({
     
     if (transform.glow) {
       ctx.shadowColor = layer.color;
-      ctx.shadowBlur = 20;
+      ctx.shadowBlur = 20 * compassGlow;
     }
     
     ctx.strokeStyle = layer.color;
@@ -424,7 +386,7 @@ const GeometricCompassRose: React.FC<GeometricCompassRoseProps> = ({
     
     if (transform.glow) {
       ctx.shadowColor = layer.color;
-      ctx.shadowBlur = 10;
+      ctx.shadowBlur = 10 * compassGlow;
     }
     
     ctx.strokeStyle = layer.color;
@@ -461,7 +423,7 @@ const GeometricCompassRose: React.FC<GeometricCompassRoseProps> = ({
     
     if (transform.glow) {
       ctx.shadowColor = layer.color;
-      ctx.shadowBlur = 8;
+      ctx.shadowBlur = 8 * compassGlow;
     }
     
     ctx.strokeStyle = layer.color;
@@ -502,7 +464,7 @@ const GeometricCompassRose: React.FC<GeometricCompassRoseProps> = ({
     
     if (transform.glow) {
       ctx.shadowColor = layer.color;
-      ctx.shadowBlur = 18;
+      ctx.shadowBlur = 18 * compassGlow;
     }
     
     ctx.strokeStyle = layer.color;
@@ -535,7 +497,7 @@ const GeometricCompassRose: React.FC<GeometricCompassRoseProps> = ({
     
     if (transform.glow) {
       ctx.shadowColor = layer.color;
-      ctx.shadowBlur = 25;
+      ctx.shadowBlur = 25 * compassGlow;
     }
     
     ctx.strokeStyle = layer.color;
@@ -567,7 +529,7 @@ const GeometricCompassRose: React.FC<GeometricCompassRoseProps> = ({
   };
 
   // Main render loop with proper layer ordering
-  const render = useCallback(() => {
+  const render = useCallback(({ delta }: FrameInfo) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
@@ -579,7 +541,7 @@ const GeometricCompassRose: React.FC<GeometricCompassRoseProps> = ({
     const centerY = height / 2;
 
     ctx.clearRect(0, 0, width, height);
-    updateMotion();
+    updateMotion(delta);
 
     // Render layers from back to front for proper depth
     layersRef.current.forEach((layer, index) => {
@@ -611,8 +573,6 @@ const GeometricCompassRose: React.FC<GeometricCompassRoseProps> = ({
           break;
       }
     });
-
-    animationFrameRef.current = requestAnimationFrame(render);
   }, [updateMotion, getSectionTransform]);
 
   // Setup and cleanup
@@ -629,13 +589,11 @@ const GeometricCompassRose: React.FC<GeometricCompassRoseProps> = ({
     window.addEventListener('resize', resize);
     
     initializeLayers();
-    render();
+    const unregister = registerLayer('compass-rose', render, { priority: LAYER_PRIORITY.normal });
 
     return () => {
       window.removeEventListener('resize', resize);
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-      }
+      unregister();
     };
   }, [initializeLayers, render]);
 
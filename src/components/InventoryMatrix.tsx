@@ -0,0 +1,182 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ProductItem } from '../types';
+import {
+  MatrixColumnKey,
+  MatrixSort,
+  buildMatrix,
+  downloadTextFile,
+  matrixToCsv,
+  sortMatrixRows
+} from '../catalog/matrix';
+import { MAX_COMPARE } from '../catalog/compare';
+import { InventoryUpdate } from '../services/inventoryFeed';
+import { PinButton } from './PinButton';
+import { StockBadge } from './StockBadge';
+import { ArrowDown, ArrowUp, ArrowUpDown, Download } from 'lucide-react';
+
+interface Props {
+  products: ProductItem[];
+  selectedProductId?: string;
+  onSelectProduct?: (product: ProductItem) => void;
+  pinnedIds?: string[];
+  onTogglePin?: (id: string) => void;
+  // Live availability by product id, shown beside each name
+  stock?: Record<string, InventoryUpdate>;
+}
+
+// Sortable table of every product, one column per spec.
+// Rows use a roving tabindex: arrows / Home / End move, Enter selects.
+export const InventoryMatrix: React.FC<Props> = ({
+  products,
+  selectedProductId,
+  onSelectProduct,
+  pinnedIds = [],
+  onTogglePin,
+  stock = {}
+}) => {
+  const [sort, setSort] = useState<MatrixSort | null>(null);
+  const [focusIndex, setFocusIndex] = useState(0);
+  const rowRefs = useRef<(HTMLTableRowElement | null)[]>([]);
+
+  const { columns, rows } = useMemo(() => buildMatrix(products), [products]);
+  const sortedRows = useMemo(() => sortMatrixRows(rows, sort), [rows, sort]);
+  const activeIndex = Math.min(focusIndex, Math.max(sortedRows.length - 1, 0));
+  const columnCount = columns.length + (onTogglePin ? 1 : 0);
+
+  const toggleSort = (column: MatrixColumnKey) => {
+    setSort(current => {
+      if (!current || current.column !== column) return { column, direction: 'asc' };
+      if (current.direction === 'asc') return { column, direction: 'desc' };
+      return null;
+    });
+  };
+
+  const focusRow = (index: number) => {
+    const clamped = Math.max(0, Math.min(index, sortedRows.length - 1));
+    setFocusIndex(clamped);
+    rowRefs.current[clamped]?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTableRowElement>, index: number) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        focusRow(index + 1);
+        break;
+      case 'ArrowUp':
+        focusRow(index - 1);
+        break;
+      case 'Home':
+        focusRow(0);
+        break;
+      case 'End':
+        focusRow(sortedRows.length - 1);
+        break;
+      case 'Enter':
+      case ' ':
+        onSelectProduct?.(sortedRows[index].product);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadTextFile(`btf-inventory-matrix-${date}.csv`, matrixToCsv(columns, sortedRows));
+  };
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col pb-8">
+      <div className="flex justify-end mb-3">
+        <button
+          onClick={handleExport}
+          disabled={sortedRows.length === 0}
+          className="flex items-center gap-2 px-4 py-2 border border-white/10 text-gold-400/70 font-sans text-[11px] tracking-[0.2em] hover:border-gold-500/50 hover:text-gold-400 transition-colors disabled:opacity-40"
+        >
+          <Download size={12} /> EXPORT CSV
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-auto border border-white/5 scrollbar-hide">
+        <table className="w-full border-collapse text-left font-sans text-sm" aria-label="Inventory matrix" aria-rowcount={sortedRows.length + 1}>
+          <thead>
+            <tr>
+              {onTogglePin && (
+                <th scope="col" className="sticky top-0 z-10 bg-navy-950 border-b border-gold-500/30 px-4 py-3 w-10">
+                  <span className="sr-only">Compare</span>
+                </th>
+              )}
+              {columns.map(column => {
+                const isSorted = sort?.column === column.key;
+                const SortIcon = !isSorted ? ArrowUpDown : sort!.direction === 'asc' ? ArrowUp : ArrowDown;
+                return (
+                  <th
+                    key={column.key}
+                    scope="col"
+                    aria-sort={isSorted ? (sort!.direction === 'asc' ? 'ascending' : 'descending') : 'none'}
+                    className="sticky top-0 z-10 bg-navy-950 border-b border-gold-500/30 px-4 py-3 whitespace-nowrap"
+                  >
+                    <button
+                      onClick={() => toggleSort(column.key)}
+                      className={`flex items-center gap-2 text-[10px] font-mono tracking-[0.2em] uppercase transition-colors ${isSorted ? 'text-gold-400' : 'text-gold-500/60 hover:text-gold-400'}`}
+                    >
+                      {column.label}
+                      <SortIcon size={10} className={isSorted ? 'opacity-100' : 'opacity-40'} />
+                    </button>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {sortedRows.length === 0 && (
+              <tr>
+                <td colSpan={columnCount} className="px-4 py-12 text-center text-parchment/50 font-serif text-xl">
+                  No matching catch
+                </td>
+              </tr>
+            )}
+            {sortedRows.map((row, index) => {
+              const isSelected = row.product.id === selectedProductId;
+              return (
+                <tr
+                  key={row.product.id}
+                  ref={el => { rowRefs.current[index] = el; }}
+                  tabIndex={index === activeIndex ? 0 : -1}
+                  aria-selected={isSelected}
+                  onClick={() => { setFocusIndex(index); onSelectProduct?.(row.product); }}
+                  onKeyDown={e => handleKeyDown(e, index)}
+                  className={`border-b border-white/5 cursor-pointer outline-none transition-colors focus:bg-gold-500/10 hover:bg-navy-900/60 ${isSelected ? 'bg-navy-900/80' : ''}`}
+                >
+                  {onTogglePin && (
+                    <td className="px-4 py-3">
+                      <PinButton
+                        product={row.product}
+                        pinned={pinnedIds.includes(row.product.id)}
+                        limitReached={pinnedIds.length >= MAX_COMPARE}
+                        size={14}
+                        onToggle={onTogglePin}
+                      />
+                    </td>
+                  )}
+                  {columns.map(column => (
+                    <td
+                      key={column.key}
+                      className={`px-4 py-3 ${column.key === 'name' ? 'font-serif text-lg text-parchment whitespace-nowrap' : 'text-parchment/70'} ${isSelected && column.key === 'name' ? 'text-gold-400' : ''}`}
+                    >
+                      {row.cells[column.key] || <span className="text-parchment/20">—</span>}
+                      {column.key === 'name' && stock[row.product.id] && (
+                        <StockBadge update={stock[row.product.id]} className="ml-3 align-middle" />
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,435 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LAYER_PRIORITY, registerLayer } from '../render/frameScheduler';
+import { useQuality } from '../render/useQuality';
+import { watchContextLoss } from '../render/contextLoss';
+import {
+  FULLSCREEN_VERTEX_SHADER,
+  bindUniforms,
+  createFullscreenQuad,
+  createShaderProgram,
+  deleteShaderProgram
+} from '../render/webgl';
+import { getInput } from '../input/inputStore';
+
+// The ocean shaders from the standalone pages in versions/. Both pages drive
+// the same four parameters from hero scroll progress; here the page's
+// overall scroll progress stands in for it.
+
+export type LegacyOceanVariant = 'chaos-noise' | 'lotus-mandala';
+
+interface LegacyOceanBackgroundProps {
+  variant: LegacyOceanVariant;
+}
+
+// versions/original-chaos-noise
+const CHAOS_NOISE_SHADER = `
+  precision highp float;
+  uniform vec2 uResolution; uniform float uTime, uChaos, uHue, uDensity, uSpeed;
+  vec3 mod289(vec3 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
+  vec2 mod289(vec2 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
+  vec3 permute(vec3 x) { return mod289(((x*34.0)+1.0)*x); }
+  float snoise(vec2 v) {
+      const vec4 C = vec4(0.211324865405187, 0.366025403784439, -0.577350269189626, 0.024390243902439);
+      vec2 i = floor(v + dot(v, C.yy)); vec2 x0 = v - i + dot(i, C.xx);
+      vec2 i1 = (x0.x > x0.y) ? vec2(1.0, 0.0) : vec2(0.0, 1.0);
+      vec4 x12 = x0.xyxy + C.xxzz; x12.xy -= i1; i = mod289(i);
+      vec3 p = permute(permute(i.y + vec3(0.0, i1.y, 1.0)) + i.x + vec3(0.0, i1.x, 1.0));
+      vec3 m = max(0.5 - vec3(dot(x0,x0), dot(x12.xy,x12.xy), dot(x12.zw,x12.zw)), 0.0);
+      m = m*m; m = m*m;
+      vec3 x = 2.0 * fract(p * C.www) - 1.0; vec3 h = abs(x) - 0.5;
+      vec3 ox = floor(x + 0.5); vec3 a0 = x - ox;
+      m *= 1.79284291400159 - 0.85373472095314 * (a0*a0 + h*h);
+      vec3 g; g.x = a0.x * x0.x + h.x * x0.y; g.yz = a0.yz * x12.xz + h.yz * x12.yw;
+      return 130.0 * dot(m, g);
+  }
+  vec3 hsv2rgb(vec3 c) {
+      vec4 K = vec4(1.0, 2.0/3.0, 1.0/3.0, 3.0);
+      vec3 p = abs(fract(c.xxx + K.xyz) * 6.0 - K.www);
+      return c.z * mix(K.xxx, clamp(p - K.xxx, 0.0, 1.0), c.y);
+  }
+  float fishSchool(vec2 uv, float t) {
+      float pattern = 0.0;
+      for (float i = 0.0; i < 5.0; i++) {
+          vec2 offset = vec2(sin(t * 0.3 + i * 1.5) * 0.3, cos(t * 0.2 + i * 1.2) * 0.2);
+          pattern += snoise((uv + offset) * (3.0 + i * 0.5) + t * 0.1) * (1.0 / (i + 1.0));
+      }
+      return pattern;
+  }
+  float lotusPattern(vec2 uv, float t) {
+      vec2 centered = uv - 0.5; float angle = atan(centered.y, centered.x); float radius = length(centered);
+      float lotus = sin(angle * 8.0 + t * 0.2) * 0.5 + 0.5;
+      lotus *= smoothstep(0.5, 0.1, radius) * smoothstep(0.0, 0.1, radius);
+      return lotus;
+  }
+  void main() {
+      vec2 uv = gl_FragCoord.xy / uResolution.xy; float t = uTime * uSpeed;
+      float structure = 1.0 - uChaos;
+
+      // Dramatic chaos pattern
+      float chaos = snoise(uv * uDensity + t) * uChaos + snoise(uv * uDensity * 2.0 - t * 0.5) * uChaos * 0.5;
+      chaos += snoise(uv * uDensity * 0.5 + t * 0.3) * uChaos * 0.3;
+
+      // Fish school emergence
+      float school = fishSchool(uv, t) * structure * 0.8;
+
+      // Lotus sacred geometry
+      float lotus = lotusPattern(uv, t) * structure * 0.6;
+
+      // Combined pattern
+      float pattern = chaos * 0.5 + school + lotus;
+
+      // DRAMATICALLY brighter colors
+      float hueShift = uHue + pattern * 0.2;
+      float saturation = 0.6 + structure * 0.3;
+      float brightness = 0.4 + abs(pattern) * 0.5 + structure * 0.2;
+
+      vec3 color = hsv2rgb(vec3(hueShift, saturation, brightness));
+
+      // Add glow effect
+      float glow = smoothstep(0.3, 0.0, abs(pattern - 0.5)) * 0.3;
+      color += glow * vec3(0.3, 0.6, 0.9);
+
+      // Soft vignette
+      float vignette = 1.0 - length(uv - 0.5) * 0.4;
+      color *= vignette;
+
+      // Depth gradient (lighter at bottom = surface)
+      color *= (0.8 + uv.y * 0.4);
+
+      gl_FragColor = vec4(color, 1.0);
+  }
+`;
+
+// versions/sacred-lotus-mandala. Declares uHue but never reads it.
+const LOTUS_MANDALA_SHADER = `
+  precision highp float;
+  uniform vec2 uResolution; uniform float uTime, uChaos, uHue, uDensity, uSpeed;
+
+  #define PI 3.14159265359
+  #define TAU 6.28318530718
+
+  // Simplex noise
+  vec3 mod289(vec3 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
+  vec2 mod289(vec2 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
+  vec3 permute(vec3 x) { return mod289(((x*34.0)+1.0)*x); }
+  float snoise(vec2 v) {
+      const vec4 C = vec4(0.211324865405187, 0.366025403784439, -0.577350269189626, 0.024390243902439);
+      vec2 i = floor(v + dot(v, C.yy)); vec2 x0 = v - i + dot(i, C.xx);
+      vec2 i1 = (x0.x > x0.y) ? vec2(1.0, 0.0) : vec2(0.0, 1.0);
+      vec4 x12 = x0.xyxy + C.xxzz; x12.xy -= i1; i = mod289(i);
+      vec3 p = permute(permute(i.y + vec3(0.0, i1.y, 1.0)) + i.x + vec3(0.0, i1.x, 1.0));
+      vec3 m = max(0.5 - vec3(dot(x0,x0), dot(x12.xy,x12.xy), dot(x12.zw,x12.zw)), 0.0);
+      m = m*m; m = m*m;
+      vec3 x = 2.0 * fract(p * C.www) - 1.0; vec3 h = abs(x) - 0.5;
+      vec3 ox = floor(x + 0.5); vec3 a0 = x - ox;
+      m *= 1.79284291400159 - 0.85373472095314 * (a0*a0 + h*h);
+      vec3 g; g.x = a0.x * x0.x + h.x * x0.y; g.yz = a0.yz * x12.xz + h.yz * x12.yw;
+      return 130.0 * dot(m, g);
+  }
+
+  vec3 hsv2rgb(vec3 c) {
+      vec4 K = vec4(1.0, 2.0/3.0, 1.0/3.0, 3.0);
+      vec3 p = abs(fract(c.xxx + K.xyz) * 6.0 - K.www);
+      return c.z * mix(K.xxx, clamp(p - K.xxx, 0.0, 1.0), c.y);
+  }
+
+  // Geometric lotus petal shape
+  float petalShape(vec2 p, float petalWidth, float petalLen) {
+      float d = length(p);
+      float petal = smoothstep(petalLen, petalLen * 0.3, d);
+      petal *= smoothstep(0.0, petalWidth, 0.5 - abs(p.y / max(d, 0.001)));
+      return petal;
+  }
+
+  // Sacred geometry mandala
+  float sacredMandala(vec2 uv, float t, float structure) {
+      vec2 center = uv - 0.5;
+      float r = length(center);
+      float a = atan(center.y, center.x);
+
+      float mandala = 0.0;
+
+      // Center lotus - glowing core
+      float core = smoothstep(0.08, 0.0, r) * 1.5;
+      mandala += core;
+
+      // Inner ring of 8 petals
+      float petals8 = 0.0;
+      for (float i = 0.0; i < 8.0; i++) {
+          float pa = i * TAU / 8.0 + t * 0.1;
+          vec2 petalCenter = vec2(cos(pa), sin(pa)) * 0.12;
+          vec2 rotated = center - petalCenter;
+          float petalAngle = pa + PI * 0.5;
+          rotated = vec2(
+              rotated.x * cos(petalAngle) + rotated.y * sin(petalAngle),
+              -rotated.x * sin(petalAngle) + rotated.y * cos(petalAngle)
+          );
+          petals8 += petalShape(rotated, 0.6, 0.08);
+      }
+      mandala += petals8 * 0.8;
+
+      // Middle ring of 12 larger petals
+      float petals12 = 0.0;
+      for (float i = 0.0; i < 12.0; i++) {
+          float pa = i * TAU / 12.0 - t * 0.05 + PI / 12.0;
+          vec2 petalCenter = vec2(cos(pa), sin(pa)) * 0.22;
+          vec2 rotated = center - petalCenter;
+          float petalAngle = pa + PI * 0.5;
+          rotated = vec2(
+              rotated.x * cos(petalAngle) + rotated.y * sin(petalAngle),
+              -rotated.x * sin(petalAngle) + rotated.y * cos(petalAngle)
+          );
+          petals12 += petalShape(rotated, 0.5, 0.1);
+      }
+      mandala += petals12 * 0.7;
+
+      // Outer ring of 16 petals
+      float petals16 = 0.0;
+      for (float i = 0.0; i < 16.0; i++) {
+          float pa = i * TAU / 16.0 + t * 0.03;
+          vec2 petalCenter = vec2(cos(pa), sin(pa)) * 0.35;
+          vec2 rotated = center - petalCenter;
+          float petalAngle = pa + PI * 0.5;
+          rotated = vec2(
+              rotated.x * cos(petalAngle) + rotated.y * sin(petalAngle),
+              -rotated.x * sin(petalAngle) + rotated.y * cos(petalAngle)
+          );
+          petals16 += petalShape(rotated, 0.45, 0.12);
+      }
+      mandala += petals16 * 0.6;
+
+      // Sacred geometry rings
+      float ring1 = smoothstep(0.02, 0.0, abs(r - 0.18)) * 0.8;
+      float ring2 = smoothstep(0.015, 0.0, abs(r - 0.28)) * 0.6;
+      float ring3 = smoothstep(0.01, 0.0, abs(r - 0.42)) * 0.5;
+      mandala += ring1 + ring2 + ring3;
+
+      // Radiating lines (sacred geometry)
+      float rays = 0.0;
+      for (float i = 0.0; i < 24.0; i++) {
+          float rayAngle = i * TAU / 24.0;
+          float angleDiff = abs(mod(a - rayAngle + PI, TAU) - PI);
+          rays += smoothstep(0.04, 0.0, angleDiff) * smoothstep(0.1, 0.45, r) * 0.3;
+      }
+      mandala += rays;
+
+      return mandala;
+  }
+
+  void main() {
+      vec2 uv = gl_FragCoord.xy / uResolution.xy;
+      // Correct aspect ratio for mandala
+      vec2 centered = uv - 0.5;
+      centered.x *= uResolution.x / uResolution.y;
+      vec2 mandalaUV = centered + 0.5;
+
+      float t = uTime * uSpeed;
+      float structure = 1.0 - uChaos;
+
+      // === CHAOS LAYER (visible when uChaos is high) ===
+      float chaos = 0.0;
+      chaos += snoise(uv * uDensity + t) * 0.5;
+      chaos += snoise(uv * uDensity * 2.0 - t * 0.7) * 0.3;
+      chaos += snoise(uv * uDensity * 4.0 + t * 0.3) * 0.2;
+      chaos *= uChaos;
+
+      // Fish school swirling in chaos
+      float swirl = 0.0;
+      for (float i = 0.0; i < 6.0; i++) {
+          vec2 offset = vec2(
+              sin(t * 0.4 + i * 1.2) * 0.4,
+              cos(t * 0.3 + i * 0.9) * 0.3
+          );
+          swirl += snoise((uv + offset) * (4.0 + i)) * (0.5 / (i + 1.0));
+      }
+      chaos += swirl * uChaos * 0.5;
+
+      // === STRUCTURE LAYER (geometric lotus mandala) ===
+      float mandala = sacredMandala(mandalaUV, t, structure) * structure;
+
+      // === BLEND CHAOS TO STRUCTURE ===
+      float pattern = chaos + mandala * 1.5;
+
+      // === COLORING ===
+      // Chaos = teal/green, Structure = purple/magenta/gold
+      float hueBase = mix(0.45, 0.8, structure); // Teal to purple
+      float hueShift = hueBase + pattern * 0.15;
+
+      // Mandala gets golden highlights
+      float goldHighlight = mandala * structure * 0.3;
+
+      float saturation = 0.5 + structure * 0.4;
+      float brightness = 0.2 + abs(chaos) * 0.4 + mandala * 0.6;
+
+      vec3 color = hsv2rgb(vec3(hueShift, saturation, brightness));
+
+      // Add lotus gold/pink glow
+      vec3 lotusGlow = vec3(1.0, 0.7, 0.9) * mandala * structure * 0.4;
+      color += lotusGlow;
+
+      // Golden center glow
+      float centerDist = length(centered);
+      vec3 goldCenter = vec3(1.0, 0.85, 0.5) * smoothstep(0.15, 0.0, centerDist) * structure * 0.6;
+      color += goldCenter;
+
+      // Outer glow rings
+      color += vec3(0.6, 0.4, 0.8) * smoothstep(0.02, 0.0, abs(centerDist - 0.3)) * structure * 0.5;
+      color += vec3(0.4, 0.6, 0.9) * smoothstep(0.015, 0.0, abs(centerDist - 0.45)) * structure * 0.4;
+
+      // Vignette
+      float vignette = 1.0 - length(uv - 0.5) * 0.5;
+      color *= vignette;
+
+      // Depth gradient
+      color *= 0.85 + uv.y * 0.3;
+
+      gl_FragColor = vec4(color, 1.0);
+  }
+`;
+
+const FRAGMENT_SHADERS: Record<LegacyOceanVariant, string> = {
+  'chaos-noise': CHAOS_NOISE_SHADER,
+  'lotus-mandala': LOTUS_MANDALA_SHADER
+};
+
+// The pages' ScrollTrigger mapping: chaos resolves into structure
+const paramsAt = (progress: number) => ({
+  chaos: 1.0 - progress * 0.9,
+  density: 20 + progress * 25,
+  hue: 0.55 + progress * 0.15,
+  speed: 0.5 - progress * 0.3
+});
+
+// Per-frame easing toward the scroll target, standing in for the pages' scrub: 1
+const PARAM_EASING = 0.06;
+
+const LegacyOceanBackground: React.FC<LegacyOceanBackgroundProps> = ({
+  variant
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [webglSupported, setWebglSupported] = useState(true);
+  const [contextLost, setContextLost] = useState(false);
+
+  const { settings: quality } = useQuality();
+  const qualityRef = useRef(quality);
+  qualityRef.current = quality;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const gl = canvas.getContext('webgl', {
+      alpha: false,
+      depth: false,
+      antialias: false,
+      preserveDrawingBuffer: false
+    });
+
+    if (!gl) {
+      console.warn('WebGL not supported, falling back to a static background');
+      setWebglSupported(false);
+      return;
+    }
+
+    const params = paramsAt(getInput().scrollProgress);
+    let elapsed = 0;
+
+    const buildResources = () => {
+      const shaderProgram = createShaderProgram(gl, {
+        label: variant,
+        vertex: FULLSCREEN_VERTEX_SHADER,
+        fragment: FRAGMENT_SHADERS[variant]
+      });
+      if (!shaderProgram) return null;
+
+      const quad = createFullscreenQuad(gl, shaderProgram.program);
+      const uniforms = bindUniforms(gl, shaderProgram.program, {
+        uResolution: { type: 'vec2', source: () => [canvas.width, canvas.height] },
+        uTime: { type: 'float', source: () => elapsed },
+        uChaos: { type: 'float', source: () => params.chaos },
+        uHue: { type: 'float', source: () => params.hue },
+        uDensity: { type: 'float', source: () => params.density },
+        uSpeed: { type: 'float', source: () => params.speed }
+      });
+
+      return { shaderProgram, quad, uniforms };
+    };
+
+    let resources = buildResources();
+    if (!resources) return;
+
+    let appliedPixelRatio = qualityRef.current.pixelRatio;
+    const resize = () => {
+      appliedPixelRatio = qualityRef.current.pixelRatio;
+      canvas.width = Math.round(window.innerWidth * appliedPixelRatio);
+      canvas.height = Math.round(window.innerHeight * appliedPixelRatio);
+      gl.viewport(0, 0, canvas.width, canvas.height);
+    };
+
+    resize();
+    window.addEventListener('resize', resize);
+
+    const unwatchContext = watchContextLoss(canvas, {
+      onLost: () => {
+        resources = null;
+        setContextLost(true);
+      },
+      onRestored: () => {
+        resources = buildResources();
+        resize();
+        setContextLost(!resources);
+      }
+    });
+
+    const unregister = registerLayer(`legacy-${variant}`, ({ delta }) => {
+      if (!resources || gl.isContextLost()) return;
+      if (qualityRef.current.pixelRatio !== appliedPixelRatio) resize();
+
+      elapsed += delta / 1000;
+      const target = paramsAt(getInput().scrollProgress);
+      params.chaos += (target.chaos - params.chaos) * PARAM_EASING;
+      params.density += (target.density - params.density) * PARAM_EASING;
+      params.hue += (target.hue - params.hue) * PARAM_EASING;
+      params.speed += (target.speed - params.speed) * PARAM_EASING;
+
+      resources.uniforms.upload();
+      resources.quad.draw();
+    }, { priority: LAYER_PRIORITY.normal });
+
+    return () => {
+      window.removeEventListener('resize', resize);
+      unwatchContext();
+      unregister();
+
+      if (resources && !gl.isContextLost()) {
+        resources.quad.dispose();
+        deleteShaderProgram(gl, resources.shaderProgram);
+      }
+      resources = null;
+    };
+  }, [variant]);
+
+  const fallback = (
+    <div
+      className="fixed inset-0 -z-10"
+      style={{ background: 'radial-gradient(ellipse at 50% 60%, #1a3a52 0%, #0d2035 55%, #0a1628 100%)' }}
+    />
+  );
+
+  return webglSupported ? (
+    <>
+      <canvas
+        ref={canvasRef}
+        data-gl-layer={variant}
+        data-context-lost={contextLost || undefined}
+        className="fixed top-0 left-0 w-full h-full -z-10"
+        style={{ visibility: contextLost ? 'hidden' : 'visible' }}
+      />
+      {contextLost && fallback}
+    </>
+  ) : (
+    fallback
+  );
+};
+
+export default LegacyOceanBackground;
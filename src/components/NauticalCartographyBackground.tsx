@@ -1,21 +1,31 @@
 import React, { useEffect, useRef, useState } from 'react';
-
-interface NauticalCartographyBackgroundProps {
-  scrollProgress?: number;
-  sectionIndex?: number;
-}
-
-const NauticalCartographyBackground: React.FC<NauticalCartographyBackgroundProps> = ({
-  scrollProgress = 0,
-  sectionIndex = 0
-}) => {
+import { LAYER_PRIORITY, registerLayer } from '../render/frameScheduler';
+import { useQuality } from '../render/useQuality';
+import { watchContextLoss } from '../render/contextLoss';
+import { getBlendedSection } from '../scene/sceneBlend';
+import { getInput } from '../input/inputStore';
+import {
+  FULLSCREEN_VERTEX_SHADER,
+  bindUniforms,
+  createFullscreenQuad,
+  createShaderProgram,
+  deleteShaderProgram
+} from '../render/webgl';
+
+const NauticalCartographyBackground: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const glRef = useRef<WebGLRenderingContext | null>(null);
   const programRef = useRef<WebGLProgram | null>(null);
-  const animationFrameRef = useRef<number>();
-  const startTimeRef = useRef<number>(Date.now());
   const mouseRef = useRef({ x: 0.5, y: 0.5 });
   const [webglSupported, setWebglSupported] = useState(true);
+  const [contextLost, setContextLost] = useState(false);
+
+  // Scroll and quality are read from the frame callback, so the context,
+  // program and buffer are built once per mount, not on every scroll.
+
+  const { settings: quality } = useQuality();
+  const qualityRef = useRef(quality);
+  qualityRef.current = quality;
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -37,14 +47,6 @@ const NauticalCartographyBackground: React.FC<NauticalCartographyBackgroundProps
 
     glRef.current = gl;
 
-    // Vertex shader
-    const vertexShaderSource = `
-      attribute vec2 a_position;
-      void main() {
-        gl_Position = vec4(a_position, 0.0, 1.0);
-      }
-    `;
-
     // Fragment shader - Nautical Cartography Raymarching
     const fragmentShaderSource = `
       precision highp float;
@@ -54,6 +56,7 @@ const NauticalCartographyBackground: React.FC<NauticalCartographyBackgroundProps
       uniform vec2 u_mouse;
       uniform float u_scroll;
       uniform float u_section;
+      uniform float u_steps;
 
       // Noise functions
       float hash(float n) {
@@ -227,7 +230,9 @@ const NauticalCartographyBackground: React.FC<NauticalCartographyBackgroundProps
         vec3 color = vec3(0.0);
         float glowAccum = 0.0;
 
+        // 64 is the compile-time ceiling; u_steps is the quality tier's budget
         for (int i = 0; i < 64; i++) {
+          if (float(i) >= u_steps) break;
           vec3 p = ro + rd * t;
           float d = scene(p);
 
@@ -255,7 +260,7 @@ const NauticalCartographyBackground: React.FC<NauticalCartographyBackgroundProps
 
           // Accumulate ethereal glow - bioluminescence
           float colorIdx = t * 0.2 + u_time * 0.0008 + u_scroll * 1.5;
-          glowAccum += 0.004 / (1.0 + d * d) * (1.0 - float(i) / 64.0);
+          glowAccum += 0.004 / (1.0 + d * d) * (1.0 - float(i) / u_steps);
           color += getNauticalColor(colorIdx, t) * 0.002 / (1.0 + d * d);
 
           if (t > 25.0) break;
@@ -357,49 +362,48 @@ const NauticalCartographyBackground: React.FC<NauticalCartographyBackgroundProps
       }
     `;
 
-    // Compile shaders
-    const vertexShader = gl.createShader(gl.VERTEX_SHADER)!;
-    gl.shaderSource(vertexShader, vertexShaderSource);
-    gl.compileShader(vertexShader);
-
-    const fragmentShader = gl.createShader(gl.FRAGMENT_SHADER)!;
-    gl.shaderSource(fragmentShader, fragmentShaderSource);
-    gl.compileShader(fragmentShader);
-
-    if (!gl.getShaderParameter(fragmentShader, gl.COMPILE_STATUS)) {
-      console.error('Fragment shader compilation error:', gl.getShaderInfoLog(fragmentShader));
-      return;
-    }
-
-    const program = gl.createProgram()!;
-    gl.attachShader(program, vertexShader);
-    gl.attachShader(program, fragmentShader);
-    gl.linkProgram(program);
-    gl.useProgram(program);
-
-    programRef.current = program;
-
-    // Create buffer
-    const positionBuffer = gl.createBuffer();
-    gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
-    const positions = new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]);
-    gl.bufferData(gl.ARRAY_BUFFER, positions, gl.STATIC_DRAW);
+    // Per-frame values the uniforms read from
+    let frameTime = 0;
+
+    // Everything that lives on the GPU. Built on mount and again after a
+    // context restore; a lost context has already freed it.
+    const buildResources = () => {
+      const shaderProgram = createShaderProgram(gl, {
+        label: 'cartography',
+        vertex: FULLSCREEN_VERTEX_SHADER,
+        fragment: fragmentShaderSource
+      });
+      if (!shaderProgram) return null;
+
+      const quad = createFullscreenQuad(gl, shaderProgram.program);
+      const uniforms = bindUniforms(gl, shaderProgram.program, {
+        u_resolution: { type: 'vec2', source: () => [canvas.width, canvas.height] },
+        u_time: { type: 'float', source: () => frameTime },
+        u_mouse: { type: 'vec2', source: () => [mouseRef.current.x, mouseRef.current.y] },
+        u_scroll: { type: 'float', source: () => getInput().scrollProgress },
+        // Eased between sections, so the chart morphs instead of snapping
+        u_section: { type: 'float', source: getBlendedSection },
+        u_steps: { type: 'float', source: () => qualityRef.current.raymarchSteps }
+      });
+
+      return { shaderProgram, quad, uniforms };
+    };
 
-    const positionLocation = gl.getAttribLocation(program, 'a_position');
-    gl.enableVertexAttribArray(positionLocation);
-    gl.vertexAttribPointer(positionLocation, 2, gl.FLOAT, false, 0, 0);
+    const destroyResources = ({ shaderProgram, quad }: NonNullable<ReturnType<typeof buildResources>>) => {
+      quad.dispose();
+      deleteShaderProgram(gl, shaderProgram);
+    };
 
-    // Get uniform locations
-    const resolutionLocation = gl.getUniformLocation(program, 'u_resolution');
-    const timeLocation = gl.getUniformLocation(program, 'u_time');
-    const mouseLocation = gl.getUniformLocation(program, 'u_mouse');
-    const scrollLocation = gl.getUniformLocation(program, 'u_scroll');
-    const sectionLocation = gl.getUniformLocation(program, 'u_section');
+    let resources = buildResources();
+    if (!resources) return;
+    programRef.current = resources.shaderProgram.program;
 
+    let appliedPixelRatio = qualityRef.current.pixelRatio;
     const resize = () => {
       if (!canvas) return;
-      canvas.width = window.innerWidth;
-      canvas.height = window.innerHeight;
+      appliedPixelRatio = qualityRef.current.pixelRatio;
+      canvas.width = Math.round(window.innerWidth * appliedPixelRatio);
+      canvas.height = Math.round(window.innerHeight * appliedPixelRatio);
       gl.viewport(0, 0, canvas.width, canvas.height);
     };
 
@@ -415,32 +419,41 @@ const NauticalCartographyBackground: React.FC<NauticalCartographyBackgroundProps
 
     window.addEventListener('mousemove', handleMouseMove);
 
-    const render = () => {
-      if (!gl || !program) return;
-
-      const time = Date.now() - startTimeRef.current;
-
-      gl.uniform2f(resolutionLocation, canvas!.width, canvas!.height);
-      gl.uniform1f(timeLocation, time);
-      gl.uniform2f(mouseLocation, mouseRef.current.x, mouseRef.current.y);
-      gl.uniform1f(scrollLocation, scrollProgress);
-      gl.uniform1f(sectionLocation, sectionIndex);
-
-      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    const unwatchContext = watchContextLoss(canvas, {
+      onLost: () => {
+        resources = null;
+        programRef.current = null;
+        setContextLost(true);
+      },
+      onRestored: () => {
+        resources = buildResources();
+        programRef.current = resources?.shaderProgram.program ?? null;
+        resize();
+        setContextLost(!resources);
+      }
+    });
 
-      animationFrameRef.current = requestAnimationFrame(render);
-    };
+    const unregister = registerLayer('cartography', ({ time }) => {
+      if (!resources || gl.isContextLost()) return;
+      if (qualityRef.current.pixelRatio !== appliedPixelRatio) resize();
 
-    render();
+      frameTime = time;
+      resources.uniforms.upload();
+      resources.quad.draw();
+    }, { priority: LAYER_PRIORITY.normal });
 
     return () => {
       window.removeEventListener('resize', resize);
       window.removeEventListener('mousemove', handleMouseMove);
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-      }
+      unwatchContext();
+      unregister();
+
+      if (resources && !gl.isContextLost()) destroyResources(resources);
+      resources = null;
+      programRef.current = null;
+      glRef.current = null;
     };
-  }, [scrollProgress, sectionIndex]);
+  }, []);
 
   // CSS Fallback Component
   const CSSFallback = () => (
@@ -508,12 +521,19 @@ const NauticalCartographyBackground: React.FC<NauticalCartographyBackgroundProps
     </div>
   );
 
+  // The canvas stays mounted while the context is lost: the restored
+  // context belongs to it.
   return webglSupported ? (
-    <canvas
-      ref={canvasRef}
-      className="fixed top-0 left-0 w-full h-full -z-10"
-      style={{ mixBlendMode: 'screen', opacity: 0.85 }}
-    />
+    <>
+      <canvas
+        ref={canvasRef}
+        data-gl-layer="cartography"
+        data-context-lost={contextLost || undefined}
+        className="fixed top-0 left-0 w-full h-full -z-10"
+        style={{ mixBlendMode: 'screen', opacity: contextLost ? 0 : 0.85 }}
+      />
+      {contextLost && <CSSFallback />}
+    </>
   ) : (
     <CSSFallback />
   );
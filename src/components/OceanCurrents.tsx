@@ -1,18 +1,25 @@
 import React, { useEffect, useRef } from 'react';
+import { LAYER_PRIORITY, registerLayer } from '../render/frameScheduler';
+import { useQuality } from '../render/useQuality';
+import { getScene } from '../scene/sceneBlend';
+import { getInput } from '../input/inputStore';
 
 interface OceanCurrentsProps {
   intensity?: number;
-  scrollProgress?: number;
 }
 
 const OceanCurrents: React.FC<OceanCurrentsProps> = ({
-  intensity = 1.0,
-  scrollProgress = 0
+  intensity = 1.0
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const velocityRef = useRef<{x: number[][], y: number[][]}>({ x: [], y: [] });
   const densityRef = useRef<number[][]>([]);
-  const animationFrameRef = useRef<number>();
+  // Read per frame so a new intensity doesn't restart the simulation
+  const intensityRef = useRef(intensity);
+  intensityRef.current = intensity;
+  const { settings: quality } = useQuality();
+  const { pixelRatio, solverIterations } = quality;
+  const { width, height } = quality.fluidGrid;
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -21,11 +28,11 @@ const OceanCurrents: React.FC<OceanCurrentsProps> = ({
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    canvas.width = window.innerWidth;
-    canvas.height = window.innerHeight;
+    canvas.width = window.innerWidth * pixelRatio;
+    canvas.height = window.innerHeight * pixelRatio;
 
-    const width = 96;  // Fluid simulation grid
-    const height = 54;
+    // Gyre sizes were tuned on the 96-cell-wide grid
+    const gridScale = width / 96;
 
     // Initialize arrays
     const initArrays = () => {
@@ -49,9 +56,7 @@ const OceanCurrents: React.FC<OceanCurrentsProps> = ({
     // Diffusion step
     const diffuse = (x: number[][], x0: number[][], diff: number, dt: number) => {
       const a = dt * diff * (width - 2) * (height - 2);
-      const iterations = 4;
-
-      for (let k = 0; k < iterations; k++) {
+      for (let k = 0; k < solverIterations; k++) {
         for (let i = 1; i < width - 1; i++) {
           for (let j = 1; j < height - 1; j++) {
             x[i][j] = (x0[i][j] + a * (
@@ -108,7 +113,7 @@ const OceanCurrents: React.FC<OceanCurrentsProps> = ({
         }
       }
 
-      for (let k = 0; k < 4; k++) {
+      for (let k = 0; k < solverIterations; k++) {
         for (let i = 1; i < width - 1; i++) {
           for (let j = 1; j < height - 1; j++) {
             p[i][j] = (div[i][j] + p[i - 1][j] + p[i + 1][j] +
@@ -136,15 +141,18 @@ const OceanCurrents: React.FC<OceanCurrentsProps> = ({
 
     // Add ocean current forces
     let time = 0;
-    const addForces = () => {
-      time += 0.08;
+    // frames: elapsed time in 60fps frames, so skipped frames don't slow the drift
+    const addForces = (frames: number) => {
+      time += 0.08 * frames;
+      // The section's scene scales the currents on top of the intensity prop
+      const strength = intensityRef.current * getScene().currentStrength;
 
       // Gulf Stream-like major current
       const streamX = Math.floor(width * 0.3);
       const streamY = Math.floor(height / 2 + Math.sin(time * 0.3) * height * 0.2);
 
       if (streamX > 0 && streamX < width && streamY > 0 && streamY < height) {
-        const force = intensity * 0.4;
+        const force = strength * 0.4;
         velocityRef.current.x[streamX][streamY] += force;
         velocityRef.current.y[streamX][streamY] += Math.sin(time * 0.5) * force * 0.3;
         densityRef.current[streamX][streamY] = Math.min(densityRef.current[streamX][streamY] + 0.8, 1);
@@ -155,7 +163,7 @@ const OceanCurrents: React.FC<OceanCurrentsProps> = ({
         const gyreAngle = time * 0.2 + g * 2.1;
         const gyreCenterX = width * (0.3 + g * 0.25);
         const gyreCenterY = height * 0.5;
-        const gyreRadius = 8 + g * 3;
+        const gyreRadius = (8 + g * 3) * gridScale;
 
         for (let a = 0; a < 6; a++) {
           const angle = (a / 6) * Math.PI * 2 + gyreAngle;
@@ -163,8 +171,8 @@ const OceanCurrents: React.FC<OceanCurrentsProps> = ({
           const y = Math.floor(gyreCenterY + Math.sin(angle) * gyreRadius);
 
           if (x > 0 && x < width && y > 0 && y < height) {
-            const tangentX = -Math.sin(angle) * intensity * 0.15;
-            const tangentY = Math.cos(angle) * intensity * 0.15;
+            const tangentX = -Math.sin(angle) * strength * 0.15;
+            const tangentY = Math.cos(angle) * strength * 0.15;
             velocityRef.current.x[x][y] += tangentX;
             velocityRef.current.y[x][y] += tangentY;
 
@@ -210,6 +218,7 @@ const OceanCurrents: React.FC<OceanCurrentsProps> = ({
     // Render
     const render = () => {
       ctx.clearRect(0, 0, canvas.width, canvas.height);
+      const fade = 1 - getInput().scrollProgress * 0.3;
 
       const cellWidth = canvas.width / width;
       const cellHeight = canvas.height / height;
@@ -221,7 +230,7 @@ const OceanCurrents: React.FC<OceanCurrentsProps> = ({
             // Choose color based on density and position
             const colorIndex = Math.floor(d * 5) % 5;
             const color = nauticalColors[colorIndex];
-            const alpha = d * 0.6 * (1 - scrollProgress * 0.3);
+            const alpha = d * 0.6 * fade;
 
             // Add subtle gold highlights
             const isGold = d > 0.6 && (i + j) % 7 === 0;
@@ -243,36 +252,25 @@ const OceanCurrents: React.FC<OceanCurrentsProps> = ({
       }
     };
 
-    // Animation loop
-    let lastTime = Date.now();
-    const animate = () => {
-      const now = Date.now();
-      const dt = Math.min((now - lastTime) / 1000, 0.1);
-      lastTime = now;
-
-      addForces();
-      step(dt);
+    // Fluid solve is the most expensive layer; first to give way when over budget
+    const unregister = registerLayer('ocean-currents', ({ delta }) => {
+      addForces(delta / (1000 / 60));
+      step(delta / 1000);
       render();
-
-      animationFrameRef.current = requestAnimationFrame(animate);
-    };
-
-    animate();
+    }, { priority: LAYER_PRIORITY.low });
 
     const handleResize = () => {
-      canvas.width = window.innerWidth;
-      canvas.height = window.innerHeight;
+      canvas.width = window.innerWidth * pixelRatio;
+      canvas.height = window.innerHeight * pixelRatio;
     };
 
     window.addEventListener('resize', handleResize);
 
     return () => {
       window.removeEventListener('resize', handleResize);
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-      }
+      unregister();
     };
-  }, [intensity, scrollProgress]);
+  }, [pixelRatio, width, height, solverIterations]);
 
   return (
     <canvas
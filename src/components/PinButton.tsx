@@ -0,0 +1,33 @@
+import React from 'react';
+import { ProductItem } from '../types';
+import { MAX_COMPARE } from '../catalog/compare';
+import { Pin, PinOff } from 'lucide-react';
+
+interface Props {
+  product: ProductItem;
+  pinned: boolean;
+  // Comparison is full; only unpinning is allowed
+  limitReached: boolean;
+  size?: number;
+  onToggle: (id: string) => void;
+}
+
+export const PinButton: React.FC<Props> = ({ product, pinned, limitReached, size = 18, onToggle }) => {
+  const Icon = pinned ? PinOff : Pin;
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        onToggle(product.id);
+      }}
+      onKeyDown={e => e.stopPropagation()}
+      disabled={!pinned && limitReached}
+      aria-pressed={pinned}
+      className={`transition-colors disabled:opacity-30 ${pinned ? 'text-gold-400' : 'text-gold-500/50 hover:text-gold-400'}`}
+      title={pinned ? 'Remove from comparison' : limitReached ? `Compare up to ${MAX_COMPARE} products` : 'Pin to compare'}
+      aria-label={`${pinned ? 'Unpin' : 'Pin'} ${product.name} for comparison`}
+    >
+      <Icon size={size} />
+    </button>
+  );
+};
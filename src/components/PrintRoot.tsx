@@ -0,0 +1,78 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { StoryCard } from '../types';
+import { SpecSheet } from './SpecSheet';
+import { PrintJob, clearPrintJob, getPrintJob, subscribePrintJob } from '../print/printJob';
+
+interface Props {
+  cards: StoryCard[];
+  // Sheets Ctrl+P prints when no job is active; the whole catalog by default
+  defaultProductIds?: string[];
+}
+
+const IMAGE_TIMEOUT = 3000;
+
+const waitForImages = (root: HTMLElement) =>
+  Promise.race([
+    Promise.all(
+      Array.from(root.querySelectorAll('img')).map(img =>
+        img.complete ? Promise.resolve() : img.decode().catch(() => undefined)
+      )
+    ),
+    new Promise(resolve => setTimeout(resolve, IMAGE_TIMEOUT))
+  ]);
+
+// Everything inside #print-root is hidden on screen and is the only thing
+// shown in print (see the print styles in index.html). With no active job
+// it holds defaultProductIds, or else the whole catalog, so Ctrl+P prints
+// the sheets that make sense for the page.
+export const PrintRoot: React.FC<Props> = ({ cards, defaultProductIds }) => {
+  const [job, setJob] = useState<PrintJob | null>(getPrintJob);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const container = document.getElementById('print-root');
+
+  useEffect(() => subscribePrintJob(setJob), []);
+
+  useEffect(() => {
+    if (!job || !rootRef.current) return;
+
+    const previousTitle = document.title;
+    let cancelled = false;
+
+    const handleAfterPrint = () => {
+      document.title = previousTitle;
+      clearPrintJob();
+    };
+    window.addEventListener('afterprint', handleAfterPrint, { once: true });
+
+    waitForImages(rootRef.current).then(() => {
+      if (cancelled) return;
+      document.title = job.title;
+      window.print();
+    });
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener('afterprint', handleAfterPrint);
+      document.title = previousTitle;
+    };
+  }, [job]);
+
+  if (!container) return null;
+
+  const productIds = job ? job.productIds : defaultProductIds ?? null;
+  const sheets = cards.flatMap(card =>
+    (card.productList ?? [])
+      .filter(product => !productIds || productIds.includes(product.id))
+      .map(product => ({ card, product }))
+  );
+
+  return createPortal(
+    <div ref={rootRef}>
+      {sheets.map(({ card, product }) => (
+        <SpecSheet key={product.id} card={card} product={product} />
+      ))}
+    </div>,
+    container
+  );
+};
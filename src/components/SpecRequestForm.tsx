@@ -0,0 +1,243 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import gsap from 'gsap';
+import { StoryCard, ProductItem } from '../types';
+import {
+  EMPTY_FIELDS,
+  SpecRequest,
+  SpecRequestAdapter,
+  SpecRequestError,
+  SpecRequestErrors,
+  SpecRequestFields,
+  buildSpecRequest,
+  createSpecRequestAdapter,
+  validateSpecRequest
+} from '../services/specRequest';
+import { X, MapPin, Send, Check, AlertTriangle, RotateCcw, Loader2 } from 'lucide-react';
+
+interface Props {
+  card: StoryCard;
+  product?: ProductItem;
+  adapter?: SpecRequestAdapter;
+  onClose: () => void;
+}
+
+type Status =
+  | { state: 'idle' }
+  | { state: 'submitting' }
+  | { state: 'success'; message: string; reference?: string }
+  | { state: 'error'; message: string; retryable: boolean };
+
+const FIELD_LABELS: Record<keyof SpecRequestFields, string> = {
+  name: 'Name',
+  company: 'Company / Restaurant',
+  email: 'Email',
+  phone: 'Phone (optional)',
+  volume: 'Expected Volume (optional)',
+  message: 'Notes'
+};
+
+// Notes start out naming the item; they follow the product picker until edited
+const defaultMessage = (card: StoryCard, product?: ProductItem) =>
+  `Please send the spec sheet for ${product?.name ?? card.title} (${card.coordinates}).`;
+
+export const SpecRequestForm: React.FC<Props> = ({ card, product, adapter, onClose }) => {
+  const panelRef = useRef<HTMLDivElement>(null);
+  const submitAdapter = useMemo(() => adapter ?? createSpecRequestAdapter(), [adapter]);
+
+  const [productId, setProductId] = useState(product?.id);
+  const selectedProduct = card.productList?.find(p => p.id === productId);
+
+  const [fields, setFields] = useState<SpecRequestFields>(() => ({
+    ...EMPTY_FIELDS,
+    message: defaultMessage(card, product)
+  }));
+  const [touched, setTouched] = useState<Partial<Record<keyof SpecRequestFields, boolean>>>({});
+  const [status, setStatus] = useState<Status>({ state: 'idle' });
+
+  const errors: SpecRequestErrors = validateSpecRequest(fields);
+  const hasErrors = Object.keys(errors).length > 0;
+
+  useEffect(() => {
+    gsap.fromTo(panelRef.current,
+      { x: 80, opacity: 0 },
+      { x: 0, opacity: 1, duration: 0.6, ease: 'power3.out' }
+    );
+  }, []);
+
+  const send = async (request: SpecRequest) => {
+    setStatus({ state: 'submitting' });
+    try {
+      const result = await submitAdapter.submit(request);
+      setStatus({ state: 'success', message: result.message, reference: result.reference });
+    } catch (err) {
+      const retryable = err instanceof SpecRequestError ? err.retryable : true;
+      const message = err instanceof Error ? err.message : 'Something went wrong. Please try again.';
+      setStatus({ state: 'error', message, retryable });
+    }
+  };
+
+  // Submit and retry both send what the form holds now, not an earlier snapshot
+  const submitCurrent = () => {
+    if (hasErrors) {
+      setTouched({ name: true, company: true, email: true, phone: true, message: true });
+      return;
+    }
+    send(buildSpecRequest(fields, card, selectedProduct));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submitCurrent();
+  };
+
+  const handleProductChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const nextId = e.target.value || undefined;
+    const previousMessage = defaultMessage(card, selectedProduct);
+    const nextMessage = defaultMessage(card, card.productList?.find(p => p.id === nextId));
+    setProductId(nextId);
+    setFields(current => (current.message === previousMessage ? { ...current, message: nextMessage } : current));
+  };
+
+  const update = (key: keyof SpecRequestFields) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+      setFields(current => ({ ...current, [key]: e.target.value }));
+    };
+
+  const renderField = (key: keyof SpecRequestFields, type = 'text') => {
+    const error = touched[key] ? errors[key] : undefined;
+    const inputClass = `w-full bg-navy-900/60 border ${error ? 'border-red-400/60' : 'border-gold-500/20'} focus:border-gold-500 outline-none px-4 py-3 text-parchment font-sans text-sm transition-colors`;
+
+    return (
+      <label key={key} className="block">
+        <span className="block text-[10px] font-mono tracking-[0.2em] text-gold-500/70 uppercase mb-2">
+          {FIELD_LABELS[key]}
+        </span>
+        {key === 'message' ? (
+          <textarea
+            rows={4}
+            value={fields[key]}
+            onChange={update(key)}
+            onBlur={() => setTouched(t => ({ ...t, [key]: true }))}
+            className={`${inputClass} resize-none`}
+          />
+        ) : (
+          <input
+            type={type}
+            value={fields[key]}
+            onChange={update(key)}
+            onBlur={() => setTouched(t => ({ ...t, [key]: true }))}
+            className={inputClass}
+          />
+        )}
+        {error && <span className="block mt-1 text-xs text-red-300/80">{error}</span>}
+      </label>
+    );
+  };
+
+  const isSubmitting = status.state === 'submitting';
+
+  return (
+    <div className="fixed inset-0 z-[70] flex justify-end bg-navy-950/70 backdrop-blur-sm" onClick={onClose}>
+      <div
+        ref={panelRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Request spec sheet"
+        onClick={e => e.stopPropagation()}
+        className="w-full md:w-[520px] h-full overflow-y-auto bg-navy-950 border-l border-gold-500/20 p-8 md:p-12 relative"
+      >
+        <button onClick={onClose} className="absolute top-6 right-6 text-gold-400 hover:text-white transition-colors" aria-label="Close">
+          <X size={24} />
+        </button>
+
+        <div className="flex items-center gap-3 text-gold-500 mb-6">
+          <Send size={18} />
+          <span className="text-xs font-sans tracking-[0.3em] uppercase">Spec Sheet Request</span>
+        </div>
+
+        {/* Prefilled item summary */}
+        <div className="border border-gold-500/10 bg-navy-900/40 p-6 mb-8">
+          <p className="font-serif text-3xl text-parchment mb-2">{selectedProduct?.name ?? card.title}</p>
+          <p className="text-gold-400/80 text-xs tracking-wider uppercase flex items-center gap-2">
+            <MapPin size={12} />
+            {card.coordinates}
+            <span className="text-parchment/40">•</span>
+            {card.title}
+          </p>
+
+          {card.productList && (
+            <label className="block mt-6">
+              <span className="block text-[10px] font-mono tracking-[0.2em] text-gold-500/70 uppercase mb-2">Product</span>
+              <select
+                value={productId ?? ''}
+                onChange={handleProductChange}
+                className="w-full bg-navy-900/60 border border-gold-500/20 focus:border-gold-500 outline-none px-4 py-3 text-parchment text-sm"
+              >
+                <option value="">Full catalog</option>
+                {card.productList.map(p => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+
+        {status.state === 'success' ? (
+          <div className="text-center py-12">
+            <Check size={48} className="mx-auto text-gold-400 mb-6" strokeWidth={1} />
+            <p className="font-serif text-2xl text-parchment mb-4">Request Sent</p>
+            <p className="text-parchment/70 text-sm leading-relaxed mb-2">{status.message}</p>
+            {status.reference && (
+              <p className="font-mono text-xs text-gold-500/70 tracking-[0.2em]">REF {status.reference}</p>
+            )}
+            <button
+              onClick={onClose}
+              className="mt-10 px-8 py-3 border border-gold-500/30 text-gold-400 text-xs tracking-[0.2em] hover:border-gold-500 transition-colors"
+            >
+              DONE
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} noValidate className="space-y-5">
+            {renderField('name')}
+            {renderField('company')}
+            {renderField('email', 'email')}
+            {renderField('phone', 'tel')}
+            {renderField('volume')}
+            {renderField('message')}
+
+            {status.state === 'error' && (
+              <div className="flex items-start gap-3 border border-red-400/30 bg-red-900/10 p-4 text-sm text-red-200/90">
+                <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+                <div className="flex-1">
+                  <p>{status.message}</p>
+                  {status.retryable && (
+                    <button
+                      type="button"
+                      onClick={submitCurrent}
+                      className="mt-3 inline-flex items-center gap-2 text-xs tracking-[0.2em] text-gold-400 hover:text-white"
+                    >
+                      <RotateCcw size={12} /> RETRY
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="group relative w-full px-8 py-4 bg-transparent overflow-hidden border border-gold-500/30 text-gold-400 font-sans text-xs tracking-[0.2em] transition-all hover:border-gold-500 disabled:opacity-60"
+            >
+              <span className="relative z-10 group-hover:text-navy-950 transition-colors duration-300 inline-flex items-center gap-3">
+                {isSubmitting && <Loader2 size={14} className="animate-spin" />}
+                {isSubmitting ? 'SENDING' : 'SEND REQUEST'}
+              </span>
+              <div className="absolute inset-0 bg-gold-500 transform scale-x-0 group-hover:scale-x-100 transition-transform origin-left duration-500 ease-out"></div>
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React from 'react';
+import { StoryCard, ProductItem } from '../types';
+import { toSpecRows } from '../catalog/specs';
+
+interface Props {
+  card: StoryCard;
+  product: ProductItem;
+  className?: string;
+}
+
+// Descriptions open with the binomial name ("Xiphias gladius. Clipper quality...")
+const splitScientificName = (description: string) => {
+  const match = description.match(/^([A-Z][a-z]+ [a-z]+)\.\s*(.*)$/s);
+  return match ? { scientific: match[1], body: match[2] } : { scientific: null, body: description };
+};
+
+// Single A4 page, ink-friendly. Rendered on screen for /catalog/:id/sheet
+// and inside #print-root for printing / Save as PDF.
+export const SpecSheet: React.FC<Props> = ({ card, product, className = '' }) => {
+  const { scientific, body } = splitScientificName(product.description);
+
+  return (
+    <article className={`spec-sheet bg-white text-[#0a192f] font-sans w-[210mm] min-h-[297mm] p-[14mm] flex flex-col ${className}`}>
+      {/* Letterhead */}
+      <header className="flex items-center justify-between border-b-2 border-[#c5a028] pb-5">
+        <div className="flex items-center gap-4">
+          <img src="/images/nautical-logo.jpg" alt="" className="w-14 h-14 rounded-sm object-cover" />
+          <div className="leading-none">
+            <span className="block font-serif text-2xl font-bold tracking-widest">BETTER THAN FRESH</span>
+            <span className="block text-[9px] tracking-[0.4em] text-[#c5a028] uppercase mt-1">Seafood Logic • Product Specification</span>
+          </div>
+        </div>
+        <div className="text-right font-mono text-[10px] tracking-[0.2em] text-[#0a192f]/60 uppercase">
+          <span className="block">{card.title}</span>
+          <span className="block">{card.coordinates}</span>
+        </div>
+      </header>
+
+      {/* Product */}
+      <section className="mt-8 flex gap-8">
+        <div className="w-1/2">
+          <h1 className="font-serif text-5xl leading-none mb-2">{product.name}</h1>
+          {scientific && <p className="font-serif italic text-xl text-[#c5a028] mb-6">{scientific}</p>}
+          <p className="text-sm leading-relaxed text-[#0a192f]/80">{body}</p>
+        </div>
+        <div className="w-1/2 h-[70mm] overflow-hidden border border-[#0a192f]/10">
+          <img src={product.image} alt={product.name} className="w-full h-full object-cover" />
+        </div>
+      </section>
+
+      {/* Specs */}
+      <section className="mt-10">
+        <h2 className="font-mono text-[10px] tracking-[0.3em] uppercase text-[#c5a028] mb-3">Specifications</h2>
+        <table className="w-full text-sm border-collapse">
+          <tbody>
+            {toSpecRows(product.specs).map(spec => (
+              <tr key={spec.key} className="border-t border-[#0a192f]/10">
+                <th className="text-left font-medium uppercase tracking-wider text-xs py-3 w-1/3 text-[#0a192f]/60">{spec.label}</th>
+                <td className="py-3">{spec.value}</td>
+              </tr>
+            ))}
+            <tr className="border-t border-b border-[#0a192f]/10">
+              <th className="text-left font-medium uppercase tracking-wider text-xs py-3 w-1/3 text-[#0a192f]/60">Reference</th>
+              <td className="py-3 font-mono text-xs">{card.id}/{product.id}</td>
+            </tr>
+          </tbody>
+        </table>
+      </section>
+
+      {/* Footer */}
+      <footer className="mt-auto pt-8 border-t border-[#0a192f]/10 flex justify-between font-mono text-[9px] tracking-[0.2em] uppercase text-[#0a192f]/50">
+        <span>Vertical Integration • Cold Chain • Global Distribution</span>
+        <span>Issued {new Date().toLocaleDateString()}</span>
+      </footer>
+    </article>
+  );
+};
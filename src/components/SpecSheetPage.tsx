@@ -0,0 +1,29 @@
+import React from 'react';
+import { StoryCard, ProductItem } from '../types';
+import { SpecSheet } from './SpecSheet';
+import { printSpecSheets, specSheetTitle } from '../print/printJob';
+import { ArrowLeft, FileDown } from 'lucide-react';
+
+interface Props {
+  card: StoryCard;
+  product: ProductItem;
+  onBack: () => void;
+}
+
+// Standalone page for /catalog/:productId/sheet
+export const SpecSheetPage: React.FC<Props> = ({ card, product, onBack }) => (
+  <div className="min-h-screen bg-navy-950 py-16 px-4 flex flex-col items-center">
+    <div className="w-full max-w-[210mm] flex justify-between items-center mb-8 font-sans text-xs tracking-[0.2em] text-gold-400">
+      <button onClick={onBack} className="flex items-center gap-2 hover:text-white transition-colors">
+        <ArrowLeft size={14} /> BACK TO CATALOG
+      </button>
+      <button
+        onClick={() => printSpecSheets({ title: specSheetTitle(product.name), productIds: [product.id] })}
+        className="flex items-center gap-2 px-6 py-3 border border-gold-500/30 hover:border-gold-500 transition-colors"
+      >
+        <FileDown size={14} /> DOWNLOAD PDF
+      </button>
+    </div>
+    <SpecSheet card={card} product={product} className="shadow-2xl" />
+  </div>
+);
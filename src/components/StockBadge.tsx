@@ -0,0 +1,33 @@
+import React from 'react';
+import { InventoryUpdate, STOCK_LABELS, StockLevel, stockLevel } from '../services/inventoryFeed';
+
+const LEVEL_STYLES: Record<StockLevel, string> = {
+  'in-stock': 'border-emerald-400/40 text-emerald-300',
+  'low': 'border-gold-500/60 text-gold-400',
+  'out': 'border-red-400/40 text-red-300/90'
+};
+
+const DOT_STYLES: Record<StockLevel, string> = {
+  'in-stock': 'bg-emerald-400',
+  'low': 'bg-gold-400 animate-pulse',
+  'out': 'bg-red-400'
+};
+
+interface Props {
+  update: InventoryUpdate;
+  className?: string;
+}
+
+export const StockBadge: React.FC<Props> = ({ update, className = '' }) => {
+  const level = stockLevel(update.available);
+  return (
+    <span
+      className={`inline-flex items-center gap-2 bg-navy-950/90 backdrop-blur border px-3 py-1 font-mono text-[10px] tracking-[0.2em] uppercase ${LEVEL_STYLES[level]} ${className}`}
+      title={`${update.available} cases • updated ${new Date(update.updatedAt).toLocaleTimeString()}`}
+    >
+      <span className={`w-1.5 h-1.5 rounded-full ${DOT_STYLES[level]}`} />
+      {STOCK_LABELS[level]}
+      {level === 'low' && <span className="text-parchment/60">{update.available}</span>}
+    </span>
+  );
+};
@@ -0,0 +1,34 @@
+import React from 'react';
+import NauticalCartographyBackground from './NauticalCartographyBackground';
+import LegacyOceanBackground from './LegacyOceanBackground';
+import { GeometricBackground } from './GeometricBackground';
+import { ThemeId } from '../themes/themes';
+
+interface ThemeBackgroundProps {
+  theme: ThemeId;
+  sectionIndex: number;
+  isExpanded: boolean;
+}
+
+// The shader background for the active theme. Overlay layers (currents,
+// fish, compass) are shared by every theme and mounted by App.
+export const ThemeBackground: React.FC<ThemeBackgroundProps> = ({
+  theme,
+  sectionIndex,
+  isExpanded
+}) => {
+  switch (theme) {
+    case 'oceanic-emergence':
+      return (
+        <GeometricBackground
+          isExpanded={isExpanded}
+          sectionIndex={sectionIndex}
+        />
+      );
+    case 'chaos-noise':
+    case 'lotus-mandala':
+      return <LegacyOceanBackground variant={theme} />;
+    case 'nautical-cartography':
+      return <NauticalCartographyBackground />;
+  }
+};
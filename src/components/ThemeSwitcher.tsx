@@ -0,0 +1,82 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Palette, Check } from 'lucide-react';
+import { THEMES, setTheme } from '../themes/themes';
+import { useTheme } from '../themes/useTheme';
+
+// Floating settings button for switching the background theme at runtime.
+export const ThemeSwitcher: React.FC = () => {
+  const theme = useTheme();
+  const [open, setOpen] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  // Close on outside click or Escape
+  useEffect(() => {
+    if (!open) return;
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setOpen(false);
+    };
+
+    document.addEventListener('pointerdown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('pointerdown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [open]);
+
+  return (
+    <div ref={rootRef} className="fixed bottom-8 left-8 z-40">
+      {open && (
+        <div
+          id="theme-switcher-menu"
+          role="radiogroup"
+          aria-label="Background theme"
+          className="absolute bottom-14 left-0 w-72 bg-navy-950/95 border border-gold-500/20 backdrop-blur-md p-2 shadow-2xl"
+        >
+          <div className="px-3 pt-2 pb-3 text-[10px] font-mono tracking-[0.3em] text-gold-500/60 uppercase">
+            Visual Theme
+          </div>
+          {THEMES.map(option => {
+            const selected = option.id === theme;
+            return (
+              <button
+                key={option.id}
+                type="button"
+                role="radio"
+                aria-checked={selected}
+                onClick={() => setTheme(option.id)}
+                className={`w-full flex items-start gap-3 px-3 py-2 text-left transition-colors ${
+                  selected ? 'bg-gold-500/10' : 'hover:bg-gold-500/5'
+                }`}
+              >
+                <Check
+                  size={14}
+                  className={`mt-0.5 shrink-0 text-gold-400 ${selected ? 'opacity-100' : 'opacity-0'}`}
+                />
+                <span>
+                  <span className="block text-sm text-parchment">{option.label}</span>
+                  <span className="block text-[11px] text-parchment/50">{option.description}</span>
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={() => setOpen(value => !value)}
+        aria-expanded={open}
+        aria-controls="theme-switcher-menu"
+        aria-label="Choose background theme"
+        className="w-11 h-11 flex items-center justify-center border border-gold-500/30 bg-navy-950/70 backdrop-blur-sm text-gold-400 hover:border-gold-500 hover:text-parchment transition-colors"
+      >
+        <Palette size={18} strokeWidth={1.5} />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  CustodyStage,
+  LOT_CODE_PATTERN,
+  LotRecord,
+  TraceabilityError,
+  TraceabilityProvider,
+  createTraceabilityProvider,
+  normalizeLotCode,
+  toCustodyTimeline
+} from '../services/traceability';
+import { Ship, MapPin, Snowflake, Factory, Truck, Search, Loader2, AlertTriangle, RotateCcw, SearchX } from 'lucide-react';
+
+interface Props {
+  provider?: TraceabilityProvider;
+}
+
+type Status =
+  | { state: 'idle' }
+  | { state: 'loading' }
+  | { state: 'found'; record: LotRecord }
+  | { state: 'not-found'; lotCode: string }
+  | { state: 'error'; message: string; retryable: boolean };
+
+const STAGE_ICONS: Record<CustodyStage, typeof Ship> = {
+  vessel: Ship,
+  catch: MapPin,
+  freeze: Snowflake,
+  plant: Factory,
+  shipment: Truck
+};
+
+const SAMPLE_LOT_CODE = 'SW-2410-0117';
+
+// Lot code in, chain-of-custody timeline out. Renders nothing when no
+// traceability service is configured.
+export const TraceabilityLookup: React.FC<Props> = ({ provider }) => {
+  const lookupProvider = useMemo(() => provider ?? createTraceabilityProvider(), [provider]);
+  const [input, setInput] = useState('');
+  const [formatError, setFormatError] = useState<string | null>(null);
+  const [status, setStatus] = useState<Status>({ state: 'idle' });
+  // Ignore answers to lookups that were superseded by a newer one
+  const requestIdRef = useRef(0);
+
+  const lookup = async (lotCode: string) => {
+    if (!lookupProvider) return;
+    const requestId = ++requestIdRef.current;
+    setStatus({ state: 'loading' });
+    try {
+      const record = await lookupProvider.lookup(lotCode);
+      if (requestId !== requestIdRef.current) return;
+      setStatus(record ? { state: 'found', record } : { state: 'not-found', lotCode });
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      const retryable = err instanceof TraceabilityError ? err.retryable : true;
+      const message = err instanceof Error ? err.message : 'Something went wrong. Please try again.';
+      setStatus({ state: 'error', message, retryable });
+    }
+  };
+
+  if (!lookupProvider) return null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const lotCode = normalizeLotCode(input);
+    if (!LOT_CODE_PATTERN.test(lotCode)) {
+      setFormatError('Lot codes look like SW-2410-0117 (printed on the master case label).');
+      return;
+    }
+    setFormatError(null);
+    setInput(lotCode);
+    lookup(lotCode);
+  };
+
+  return (
+    <div className="mt-12 overlay-animate-up max-w-lg">
+      <span className="block text-[10px] font-mono tracking-[0.3em] text-gold-500/70 uppercase mb-3">
+        Trace a Lot
+      </span>
+      <form onSubmit={handleSubmit} className="flex gap-3" noValidate>
+        <input
+          value={input}
+          onChange={e => setInput(e.target.value)}
+          placeholder={SAMPLE_LOT_CODE}
+          aria-label="Lot code"
+          aria-invalid={Boolean(formatError)}
+          className="flex-1 bg-navy-900/60 border border-gold-500/20 focus:border-gold-500 outline-none px-4 py-3 text-parchment font-mono text-sm tracking-widest uppercase placeholder:text-parchment/20"
+        />
+        <button
+          type="submit"
+          disabled={status.state === 'loading'}
+          className="flex items-center gap-2 px-5 py-3 border border-gold-500/30 text-gold-400 font-sans text-xs tracking-[0.2em] hover:border-gold-500 transition-colors disabled:opacity-50"
+        >
+          {status.state === 'loading' ? <Loader2 size={14} className="animate-spin" /> : <Search size={14} />}
+          TRACE
+        </button>
+      </form>
+      {formatError && <p className="mt-2 text-xs text-red-300/80">{formatError}</p>}
+      {lookupProvider.name === 'mock' && status.state === 'idle' && !formatError && (
+        <p className="mt-2 text-xs text-parchment/40">
+          Demo data — try <button type="button" onClick={() => setInput(SAMPLE_LOT_CODE)} className="font-mono text-gold-400/70 hover:text-gold-400">{SAMPLE_LOT_CODE}</button>
+        </p>
+      )}
+
+      <div aria-live="polite">
+        {status.state === 'not-found' && (
+          <div className="mt-6 flex items-start gap-3 border border-dashed border-white/10 p-5">
+            <SearchX size={18} className="text-gold-500/60 shrink-0 mt-0.5" />
+            <div>
+              <p className="text-parchment font-serif text-lg">No lot {status.lotCode}</p>
+              <p className="text-sm text-parchment/50">Check the code on the case label, or contact your account rep.</p>
+            </div>
+          </div>
+        )}
+
+        {status.state === 'error' && (
+          <div className="mt-6 flex items-start gap-3 border border-red-400/30 bg-red-900/10 p-5">
+            <AlertTriangle size={18} className="text-red-300/80 shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <p className="text-sm text-parchment/80">{status.message}</p>
+              {status.retryable && (
+                <button
+                  onClick={() => lookup(normalizeLotCode(input))}
+                  className="mt-3 flex items-center gap-2 text-xs tracking-[0.2em] text-gold-400 hover:text-white transition-colors"
+                >
+                  <RotateCcw size={12} /> RETRY
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {status.state === 'found' && (
+          <ol className="mt-6 max-h-[40vh] overflow-y-auto scrollbar-hide border-l border-gold-500/30 ml-3 space-y-6 pr-2">
+            {toCustodyTimeline(status.record).map(event => {
+              const Icon = STAGE_ICONS[event.stage];
+              return (
+                <li key={event.stage} className="relative pl-8">
+                  <span className="absolute -left-[13px] top-0 w-6 h-6 rounded-full bg-navy-950 border border-gold-500/50 flex items-center justify-center text-gold-400">
+                    <Icon size={12} />
+                  </span>
+                  <time dateTime={event.at} className="block font-mono text-[10px] tracking-[0.2em] text-gold-500/60 uppercase">
+                    {new Date(event.at).toLocaleString()}
+                  </time>
+                  <p className="text-parchment font-serif text-lg leading-tight mt-1">{event.title}</p>
+                  <dl className="mt-1 grid grid-cols-[auto_1fr] gap-x-4 text-xs">
+                    {event.details.map(([label, value]) => (
+                      <React.Fragment key={label}>
+                        <dt className="text-parchment/40">{label}</dt>
+                        <dd className="text-parchment/70">{value}</dd>
+                      </React.Fragment>
+                    ))}
+                  </dl>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import fs from 'fs';
+import path from 'path';
+import { StoryCard, ProductItem } from '../types';
+import { ContentIssue, ValidationContext, validateCard, validateProduct } from './schema';
+
+// Build-time content loader (runs in Node inside the Vite plugin).
+//
+// content/cards/<NN-slug>.json   - card fields; `fullContent` may instead live
+//                                  in a sibling <NN-slug>.md file
+// content/products/<slug>.json   - catalog entries, attached to a card via
+//                                  `card` and ordered by `order`
+
+export interface LoadedContent {
+  cards: StoryCard[];
+  issues: ContentIssue[];
+  files: string[];
+}
+
+interface ContentPaths {
+  contentDir: string;
+  publicDir: string;
+}
+
+const listFiles = (dir: string, ext: string) =>
+  fs.existsSync(dir)
+    ? fs.readdirSync(dir).filter(name => name.endsWith(ext)).sort()
+    : [];
+
+const readJson = (file: string, label: string, issues: ContentIssue[]): unknown => {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (err) {
+    issues.push({ file: label, message: `invalid JSON (${(err as Error).message})` });
+    return undefined;
+  }
+};
+
+// Markdown body becomes a single paragraph, matching how fullContent renders.
+const readMarkdown = (file: string) =>
+  fs.readFileSync(file, 'utf8').trim().replace(/\s*\n\s*/g, ' ');
+
+export const loadContent = ({ contentDir, publicDir }: ContentPaths): LoadedContent => {
+  const issues: ContentIssue[] = [];
+  const files: string[] = [];
+  const cards: StoryCard[] = [];
+  const imageExists = (src: string) => fs.existsSync(path.join(publicDir, src));
+  const relative = (file: string) => path.relative(path.dirname(contentDir), file);
+
+  // Cards
+  const cardsDir = path.join(contentDir, 'cards');
+  const seenCards = new Map<string, string>();
+
+  for (const name of listFiles(cardsDir, '.json')) {
+    const file = path.join(cardsDir, name);
+    const mdFile = file.replace(/\.json$/, '.md');
+    const label = relative(file);
+    files.push(file);
+
+    const raw = readJson(file, label, issues);
+    if (raw === undefined) continue;
+
+    if (fs.existsSync(mdFile)) {
+      files.push(mdFile);
+      if (typeof raw === 'object' && raw !== null && !('fullContent' in raw)) {
+        (raw as Record<string, unknown>).fullContent = readMarkdown(mdFile);
+      }
+    }
+
+    const ctx: ValidationContext = { file: label, issues, imageExists };
+    const card = validateCard(ctx, raw);
+    if (!card) continue;
+
+    const previous = seenCards.get(card.id);
+    if (previous) {
+      issues.push({ file: label, message: `duplicate id "${card.id}" (already used by ${previous})` });
+      continue;
+    }
+    seenCards.set(card.id, label);
+    cards.push(card);
+  }
+
+  // Products
+  const productsDir = path.join(contentDir, 'products');
+  const productsByCard = new Map<string, { order: number; product: ProductItem }[]>();
+
+  for (const name of listFiles(productsDir, '.json')) {
+    const file = path.join(productsDir, name);
+    const label = relative(file);
+    files.push(file);
+
+    const raw = readJson(file, label, issues);
+    if (raw === undefined) continue;
+
+    const ctx: ValidationContext = { file: label, issues, imageExists };
+    const product = validateProduct(ctx, path.basename(name, '.json'), raw);
+    const { card: cardId, order } = (raw ?? {}) as { card?: unknown; order?: unknown };
+
+    const parent = cards.find(card => card.id === cardId);
+    if (!parent) {
+      issues.push({ file: label, message: `card ${JSON.stringify(cardId)} does not match any card id` });
+      continue;
+    }
+    if (parent.type !== 'catalog') {
+      issues.push({ file: label, message: `card "${parent.id}" is type "${parent.type}", products can only attach to catalog cards` });
+      continue;
+    }
+    if (order !== undefined && typeof order !== 'number') {
+      issues.push({ file: label, message: 'order must be a number' });
+      continue;
+    }
+    if (!product) continue;
+
+    const list = productsByCard.get(parent.id) ?? [];
+    list.push({ order: typeof order === 'number' ? order : Number.MAX_SAFE_INTEGER, product });
+    productsByCard.set(parent.id, list);
+  }
+
+  for (const card of cards) {
+    const entries = productsByCard.get(card.id);
+    if (entries) {
+      card.productList = entries
+        .sort((a, b) => a.order - b.order)
+        .map(entry => entry.product);
+    }
+  }
+
+  if (cards.length === 0 && issues.length === 0) {
+    issues.push({ file: relative(cardsDir), message: 'no card files found' });
+  }
+
+  return { cards, issues, files };
+};
@@ -0,0 +1,59 @@
+import path from 'path';
+import type { Plugin } from 'vite';
+import { loadContent } from './loader';
+import { formatIssues } from './schema';
+
+// Exposes the validated /content files as `virtual:story-cards`.
+// Any validation issue throws, which aborts `vite build` and shows the
+// error overlay during `vite dev`.
+
+const VIRTUAL_ID = 'virtual:story-cards';
+const RESOLVED_ID = '\0' + VIRTUAL_ID;
+
+export class ContentValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContentValidationError';
+  }
+}
+
+export const storyContentPlugin = (root: string): Plugin => {
+  const contentDir = path.resolve(root, 'content');
+  const publicDir = path.resolve(root, 'public');
+
+  return {
+    name: 'btf-story-content',
+
+    resolveId(id) {
+      return id === VIRTUAL_ID ? RESOLVED_ID : null;
+    },
+
+    load(id) {
+      if (id !== RESOLVED_ID) return null;
+
+      const { cards, issues, files } = loadContent({ contentDir, publicDir });
+      files.forEach(file => this.addWatchFile(file));
+
+      if (issues.length > 0) {
+        throw new ContentValidationError(
+          `Invalid story content (${issues.length} issue${issues.length === 1 ? '' : 's'}):\n${formatIssues(issues)}`
+        );
+      }
+
+      return `export default ${JSON.stringify(cards, null, 2)};`;
+    },
+
+    configureServer(server) {
+      // New or deleted content files aren't covered by addWatchFile.
+      server.watcher.add(contentDir);
+      const reload = (file: string) => {
+        if (!file.startsWith(contentDir)) return;
+        const mod = server.moduleGraph.getModuleById(RESOLVED_ID);
+        if (mod) server.moduleGraph.invalidateModule(mod);
+        server.ws.send({ type: 'full-reload' });
+      };
+      server.watcher.on('add', reload);
+      server.watcher.on('unlink', reload);
+    }
+  };
+};
@@ -0,0 +1,196 @@
+import { StoryCard, CardFeature, FishSpecies, ProductItem, ProductSpecs, Weight, WeightRange } from '../types';
+import { CASE_TYPES, PACK_FORMATS, TREATMENTS, WEIGHT_UNITS } from '../catalog/specs';
+
+// Runtime validation for the content files under /content.
+// Mirrors the StoryCard / ProductItem / ProductSpecs shapes in types.ts so
+// that a malformed file fails the build instead of rendering a broken card.
+
+export const CARD_TYPES: StoryCard['type'][] = ['product', 'ethos', 'process', 'catalog'];
+export const CARD_FEATURES: CardFeature[] = ['traceability'];
+export const FISH_SPECIES: FishSpecies[] = ['tuna', 'swordfish', 'mahi', 'snapper', 'grouper'];
+
+export interface ContentIssue {
+  file: string;
+  message: string;
+}
+
+export interface ValidationContext {
+  file: string;
+  issues: ContentIssue[];
+  imageExists: (src: string) => boolean;
+}
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const report = (ctx: ValidationContext, message: string) => {
+  ctx.issues.push({ file: ctx.file, message });
+};
+
+const readString = (ctx: ValidationContext, raw: RawRecord, key: string, path = ''): string | null => {
+  const value = raw[key];
+  if (typeof value !== 'string' || value.trim() === '') {
+    report(ctx, `${path}${key} must be a non-empty string`);
+    return null;
+  }
+  return value;
+};
+
+const checkImage = (ctx: ValidationContext, src: string, path = '') => {
+  if (/^https?:\/\//.test(src)) return;
+  if (!src.startsWith('/')) {
+    report(ctx, `${path}image "${src}" must be an absolute URL or a path under public/`);
+    return;
+  }
+  if (!ctx.imageExists(src)) {
+    report(ctx, `${path}image "${src}" not found in public/`);
+  }
+};
+
+const readStringList = (ctx: ValidationContext, raw: RawRecord, key: string, path: string, required = false) => {
+  const value = raw[key];
+  if (value === undefined && !required) return undefined;
+  if (!Array.isArray(value) || value.length === 0 || value.some(item => typeof item !== 'string' || !item.trim())) {
+    report(ctx, `${path}${key} must be a non-empty list of strings`);
+    return undefined;
+  }
+  return value as string[];
+};
+
+const readEnum = <T extends string>(ctx: ValidationContext, raw: RawRecord, key: string, allowed: T[], path: string) => {
+  const value = raw[key];
+  if (value === undefined) return undefined;
+  if (!allowed.includes(value as T)) {
+    report(ctx, `${path}${key} ${JSON.stringify(value)} is not one of ${allowed.join(', ')}`);
+    return undefined;
+  }
+  return value as T;
+};
+
+const isUnit = (value: unknown) => WEIGHT_UNITS.includes(value as Weight['unit']);
+const isPositive = (value: unknown): value is number => typeof value === 'number' && value > 0;
+
+const readWeight = (ctx: ValidationContext, raw: RawRecord, key: string, path: string): Weight | undefined => {
+  const value = raw[key];
+  if (value === undefined) return undefined;
+  if (!isRecord(value) || !isPositive(value.value) || !isUnit(value.unit)) {
+    report(ctx, `${path}${key} must be { value: number > 0, unit: ${WEIGHT_UNITS.join(' | ')} }`);
+    return undefined;
+  }
+  return { value: value.value, unit: value.unit as Weight['unit'] };
+};
+
+const readWeightRange = (ctx: ValidationContext, raw: RawRecord, key: string, path: string): WeightRange | undefined => {
+  const value = raw[key];
+  if (value === undefined) return undefined;
+  if (!isRecord(value) || !isPositive(value.min) || !isPositive(value.max) || !isUnit(value.unit)) {
+    report(ctx, `${path}${key} must be { min: number > 0, max: number > 0, unit: ${WEIGHT_UNITS.join(' | ')} }`);
+    return undefined;
+  }
+  if (value.min > value.max) {
+    report(ctx, `${path}${key} min (${value.min}) is greater than max (${value.max})`);
+    return undefined;
+  }
+  return { min: value.min, max: value.max, unit: value.unit as WeightRange['unit'] };
+};
+
+export const validateSpecs = (ctx: ValidationContext, raw: unknown, path = 'specs.'): ProductSpecs | null => {
+  if (!isRecord(raw)) {
+    report(ctx, `${path.slice(0, -1)} must be an object (cut, packFormat, portionSize, ...)`);
+    return null;
+  }
+
+  const known = ['cut', 'packFormat', 'portionSize', 'caseWeight', 'caseType', 'origin', 'grade', 'treatments'];
+  Object.keys(raw)
+    .filter(key => !known.includes(key))
+    .forEach(key => report(ctx, `${path}${key} is not a known spec field (${known.join(', ')})`));
+
+  const cut = readStringList(ctx, raw, 'cut', path, true);
+  const treatments = raw.treatments;
+  let validTreatments: ProductSpecs['treatments'];
+  if (treatments !== undefined) {
+    if (!Array.isArray(treatments) || treatments.some(t => !TREATMENTS.includes(t))) {
+      report(ctx, `${path}treatments must be a list of ${TREATMENTS.join(', ')}`);
+    } else {
+      validTreatments = treatments;
+    }
+  }
+
+  const specs: ProductSpecs = {
+    cut: cut ?? [],
+    packFormat: readEnum(ctx, raw, 'packFormat', PACK_FORMATS, path),
+    portionSize: readWeightRange(ctx, raw, 'portionSize', path),
+    caseWeight: readWeight(ctx, raw, 'caseWeight', path),
+    caseType: readEnum(ctx, raw, 'caseType', CASE_TYPES, path),
+    origin: readStringList(ctx, raw, 'origin', path),
+    grade: readStringList(ctx, raw, 'grade', path),
+    treatments: validTreatments
+  };
+
+  return cut ? specs : null;
+};
+
+export const validateProduct = (ctx: ValidationContext, id: string, raw: unknown): ProductItem | null => {
+  if (!isRecord(raw)) {
+    report(ctx, 'product file must contain a JSON object');
+    return null;
+  }
+
+  const name = readString(ctx, raw, 'name');
+  const description = readString(ctx, raw, 'description');
+  const image = readString(ctx, raw, 'image');
+  if (image) checkImage(ctx, image);
+
+  const specs = validateSpecs(ctx, raw.specs);
+  const species = readEnum(ctx, raw, 'species', FISH_SPECIES, '');
+
+  if (!name || !description || !image || !specs) return null;
+  return { id, name, description, image, specs, ...(species && { species }) };
+};
+
+export const validateCard = (ctx: ValidationContext, raw: unknown): StoryCard | null => {
+  if (!isRecord(raw)) {
+    report(ctx, 'card file must contain a JSON object');
+    return null;
+  }
+
+  const id = readString(ctx, raw, 'id');
+  const title = readString(ctx, raw, 'title');
+  const subtitle = readString(ctx, raw, 'subtitle');
+  const description = readString(ctx, raw, 'description');
+  const fullContent = readString(ctx, raw, 'fullContent');
+  const coordinates = readString(ctx, raw, 'coordinates');
+  const image = readString(ctx, raw, 'image');
+  if (image) checkImage(ctx, image);
+
+  const type = raw.type;
+  const validType = CARD_TYPES.includes(type as StoryCard['type']);
+  if (!validType) {
+    report(ctx, `unknown type ${JSON.stringify(type)} (expected one of ${CARD_TYPES.join(', ')})`);
+  }
+
+  const feature = readEnum(ctx, raw, 'feature', CARD_FEATURES, '');
+  const species = readEnum(ctx, raw, 'species', FISH_SPECIES, '');
+
+  if (!id || !title || !subtitle || !description || !fullContent || !coordinates || !image || !validType) {
+    return null;
+  }
+
+  return {
+    id,
+    type: type as StoryCard['type'],
+    title,
+    subtitle,
+    description,
+    fullContent,
+    coordinates,
+    image,
+    ...(feature && { feature }),
+    ...(species && { species })
+  };
+};
+
+export const formatIssues = (issues: ContentIssue[]) =>
+  issues.map(issue => `  ${issue.file}: ${issue.message}`).join('\n');
@@ -0,0 +1,6 @@
+declare module 'virtual:story-cards' {
+  import type { StoryCard } from '../types';
+
+  const cards: StoryCard[];
+  export default cards;
+}
@@ -0,0 +1,128 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Plugin } from 'vite';
+
+// Local mock backend mounted on the Vite dev server (`npm run dev` only).
+// Lets the front-end adapters talk to real HTTP endpoints without a backend.
+//
+// MOCK_API_FAIL_RATE=0.5 npm run dev   makes half of all requests return 503,
+//                                      to exercise error and retry states.
+//
+// GET /api/inventory/stream?products=a,b is a Server-Sent Events feed that
+// sends a full snapshot on connect, then random stock moves every few seconds.
+
+type MockHandler = (req: IncomingMessage, res: ServerResponse, url: URL) => void | Promise<void>;
+
+const failRate = () => Number(process.env.MOCK_API_FAIL_RATE ?? 0);
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+const readJsonBody = (req: IncomingMessage) =>
+  new Promise<Record<string, unknown>>((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (err) {
+        reject(err);
+      }
+    });
+    req.on('error', reject);
+  });
+
+let requestCounter = 0;
+
+// Cases on hand per product, shared by every stream so reloads stay consistent
+const mockStock = new Map<string, number>();
+const INVENTORY_TICK_MS = 3000;
+
+const stockUpdate = (productId: string) => ({
+  productId,
+  available: mockStock.get(productId) ?? 0,
+  updatedAt: new Date().toISOString()
+});
+
+// Sells down a random product, occasionally restocking an empty one
+const moveStock = (productIds: string[]) => {
+  const productId = productIds[Math.floor(Math.random() * productIds.length)];
+  const current = mockStock.get(productId) ?? 0;
+  const next = current === 0 && Math.random() < 0.5
+    ? 40 + Math.floor(Math.random() * 80)
+    : Math.max(0, current - Math.floor(Math.random() * 15));
+  mockStock.set(productId, next);
+  return productId;
+};
+
+const routes: Record<string, MockHandler> = {
+  'POST /api/spec-requests': async (req, res) => {
+    let body: Record<string, unknown>;
+    try {
+      body = await readJsonBody(req);
+    } catch {
+      sendJson(res, 400, { error: 'Invalid JSON' });
+      return;
+    }
+
+    if (typeof body.email !== 'string' || typeof body.cardId !== 'string') {
+      sendJson(res, 422, { error: 'email and cardId are required' });
+      return;
+    }
+
+    requestCounter += 1;
+    const reference = `BTF-${String(requestCounter).padStart(4, '0')}`;
+    console.log(`[mock-api] spec request ${reference}: ${body.productName ?? body.cardTitle} for ${body.email}`);
+
+    // Simulated network latency so loading states are visible
+    setTimeout(() => sendJson(res, 201, { reference }), 600);
+  },
+
+  'GET /api/inventory/stream': (req, res, url) => {
+    const productIds = (url.searchParams.get('products') ?? '').split(',').filter(Boolean);
+    if (productIds.length === 0) {
+      sendJson(res, 422, { error: 'products query parameter is required' });
+      return;
+    }
+
+    productIds.forEach(id => {
+      if (!mockStock.has(id)) mockStock.set(id, Math.floor(Math.random() * 120));
+    });
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+    const send = (updates: unknown[]) => res.write(`data: ${JSON.stringify(updates)}\n\n`);
+
+    send(productIds.map(stockUpdate));
+    const interval = setInterval(() => send([stockUpdate(moveStock(productIds))]), INVENTORY_TICK_MS);
+    req.on('close', () => clearInterval(interval));
+  }
+};
+
+export const mockApiPlugin = (): Plugin => ({
+  name: 'btf-mock-api',
+  apply: 'serve',
+
+  configureServer(server) {
+    server.middlewares.use((req, res, next) => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const handler = routes[`${req.method} ${url.pathname}`];
+      if (!handler) return next();
+
+      if (Math.random() < failRate()) {
+        sendJson(res, 503, { error: 'Mock failure (MOCK_API_FAIL_RATE)' });
+        return;
+      }
+
+      Promise.resolve(handler(req, res, url)).catch(err => {
+        console.error('[mock-api]', err);
+        sendJson(res, 500, { error: 'Mock handler failed' });
+      });
+    });
+  }
+});
@@ -0,0 +1,114 @@
+import type { LotRecord } from '../services/traceability';
+
+// Sample lots answered by the mock traceability provider.
+// Codes are species prefix, year + month, sequence.
+
+// Looking this code up simulates a service outage
+export const MOCK_FAILING_LOT_CODE = 'XX-0000-0000';
+
+export const MOCK_LOTS: LotRecord[] = [
+  {
+    lotCode: 'SW-2410-0117',
+    species: 'Xiphias gladius',
+    productId: 'swordfish-steaks',
+    vessel: {
+      name: 'F/V Doña Aurelia',
+      flag: 'Panama',
+      gear: 'Pelagic longline',
+      homePort: 'Vacamonte',
+      tripStartedAt: '2024-10-02T05:30:00-05:00'
+    },
+    catch: {
+      zone: 'FAO 77 Eastern Central Pacific',
+      coordinates: '06°12′N 81°40′W',
+      caughtAt: '2024-10-09T03:15:00-05:00'
+    },
+    freeze: {
+      frozenAt: '2024-10-09T05:40:00-05:00',
+      temperatureC: -60,
+      method: 'Ultra-low brine, frozen at sea'
+    },
+    plant: {
+      name: 'BTF Processing Plant 2',
+      location: 'Vacamonte, Panama',
+      certification: 'HACCP • BRCGS AA',
+      processedAt: '2024-10-18T08:00:00-05:00'
+    },
+    shipment: {
+      carrier: 'Maersk Line',
+      container: 'MRKU 482913-7 (reefer, -25°C)',
+      destination: 'Port Everglades, FL',
+      departedAt: '2024-10-21T16:00:00-05:00',
+      arrivedAt: '2024-10-26T09:30:00-04:00'
+    }
+  },
+  {
+    lotCode: 'MM-2411-0042',
+    species: 'Coryphaena hippurus',
+    productId: 'mahi-mahi',
+    vessel: {
+      name: 'F/V Estrella del Sur',
+      flag: 'Ecuador',
+      gear: 'Surface longline',
+      homePort: 'Manta',
+      tripStartedAt: '2024-11-04T04:00:00-05:00'
+    },
+    catch: {
+      zone: 'FAO 87 Southeast Pacific',
+      coordinates: '01°35′S 82°10′W',
+      caughtAt: '2024-11-08T22:45:00-05:00'
+    },
+    freeze: {
+      frozenAt: '2024-11-09T00:30:00-05:00',
+      temperatureC: -40,
+      method: 'Plate frozen at sea'
+    },
+    plant: {
+      name: 'BTF Processing Plant 1',
+      location: 'Manta, Ecuador',
+      certification: 'HACCP • MSC Chain of Custody',
+      processedAt: '2024-11-15T07:30:00-05:00'
+    },
+    shipment: {
+      carrier: 'Hapag-Lloyd',
+      container: 'HLXU 671045-2 (reefer, -25°C)',
+      destination: 'Port of Miami, FL',
+      departedAt: '2024-11-18T12:00:00-05:00'
+    }
+  },
+  {
+    lotCode: 'GR-2409-0308',
+    species: 'Mycteroperca bonaci',
+    productId: 'black-grouper',
+    vessel: {
+      name: 'F/V Capitán Rivas',
+      flag: 'Panama',
+      gear: 'Vertical hook and line',
+      homePort: 'Colón',
+      tripStartedAt: '2024-09-10T05:00:00-05:00'
+    },
+    catch: {
+      zone: 'FAO 31 Western Central Atlantic',
+      coordinates: '10°05′N 78°55′W',
+      caughtAt: '2024-09-14T10:20:00-05:00'
+    },
+    freeze: {
+      frozenAt: '2024-09-14T11:05:00-05:00',
+      temperatureC: -35,
+      method: 'Blast frozen at sea'
+    },
+    plant: {
+      name: 'BTF Processing Plant 3',
+      location: 'Colón, Panama',
+      certification: 'HACCP',
+      processedAt: '2024-09-20T09:00:00-05:00'
+    },
+    shipment: {
+      carrier: 'CMA CGM',
+      container: 'CMAU 305581-4 (reefer, -25°C)',
+      destination: 'Port of Tampa, FL',
+      departedAt: '2024-09-23T18:00:00-05:00',
+      arrivedAt: '2024-09-27T06:15:00-04:00'
+    }
+  }
+];
@@ -0,0 +1,61 @@
+import { FishInputs, createFishSimulation } from './simulation';
+
+// Times the flocking step at several school sizes, without drawing.
+// `npm run bench:fish` runs it under node (see fish-benchmark.js). The
+// quality tiers' fishCount is sized from these numbers.
+
+export const FISH_BENCHMARK_COUNTS = [100, 1000, 5000];
+
+export interface FishBenchmarkOptions {
+  counts?: number[];
+  // Timed steps per count, after the warm-up steps
+  steps?: number;
+  warmupSteps?: number;
+  width?: number;
+  height?: number;
+}
+
+export interface FishBenchmarkResult {
+  fishCount: number;
+  // Step times in ms
+  meanMs: number;
+  p95Ms: number;
+  maxMs: number;
+}
+
+// A neutral scene with the compass turning slowly, as when scrolling gently
+const inputsAt = (step: number): FishInputs => ({
+  compassRotation: step * 0.005,
+  behaviour: { speed: 1, cohesion: 1, wander: 1, predators: 0 },
+  pointer: null,
+  baitBall: null,
+  obstacles: [],
+  species: null
+});
+
+const benchmarkCount = (fishCount: number, { steps = 120, warmupSteps = 1200, width = 1920, height = 1080 }: FishBenchmarkOptions): FishBenchmarkResult => {
+  const simulation = createFishSimulation(width, height, fishCount);
+
+  // Let the schools form first; a fresh scatter has fewer neighbours per fish
+  for (let i = 0; i < warmupSteps; i++) {
+    simulation.step(16, inputsAt(i));
+  }
+
+  const times: number[] = [];
+  for (let i = 0; i < steps; i++) {
+    const start = performance.now();
+    simulation.step(16, inputsAt(warmupSteps + i));
+    times.push(performance.now() - start);
+  }
+
+  times.sort((a, b) => a - b);
+  return {
+    fishCount: simulation.fish.count,
+    meanMs: times.reduce((sum, t) => sum + t, 0) / times.length,
+    p95Ms: times[Math.min(times.length - 1, Math.floor(times.length * 0.95))],
+    maxMs: times[times.length - 1]
+  };
+};
+
+export const runFishBenchmark = (options: FishBenchmarkOptions = {}): FishBenchmarkResult[] =>
+  (options.counts ?? FISH_BENCHMARK_COUNTS).map(count => benchmarkCount(count, options));
@@ -0,0 +1,16 @@
+// Palette colours as the renderers use them: RGB floats, 0-1
+
+export type RGB = [number, number, number];
+
+const colorCache = new Map<string, RGB>();
+
+// '#64ffda' -> [0.39, 1, 0.85]
+export const parseColor = (hex: string) => {
+  let rgb = colorCache.get(hex);
+  if (!rgb) {
+    const value = parseInt(hex.slice(1), 16);
+    rgb = [(value >> 16 & 255) / 255, (value >> 8 & 255) / 255, (value & 255) / 255];
+    colorCache.set(hex, rgb);
+  }
+  return rgb;
+};
@@ -0,0 +1,200 @@
+import { RGB } from './color';
+import { FishCanvas, FishRenderer } from './renderer';
+import { FISH_ROLE, FishArrays, Predator } from './simulation';
+import { speciesFromCode, speciesTrait } from './species';
+
+// Either canvas context works here, so the worker can draw into its
+// OffscreenCanvas with the same code as the main-thread fallback
+export type FishContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Trail fade painted over the previous frame, as rgba
+export const TRAIL_FADE = [2, 12, 27, 0.05] as const;
+
+// Fish size based on role and energy
+export const fishBodySize = (fish: FishArrays, i: number) => {
+  const role = fish.role[i];
+  const sizeMultiplier = role === FISH_ROLE.leader ? 1.3 : (role === FISH_ROLE.scout ? 1.1 : 1.0);
+  return fish.size[i] * sizeMultiplier * fish.energy[i];
+};
+
+export const fishOpacity = (fish: FishArrays, i: number) => fish.alpha[i] * (0.7 + fish.energy[i] * 0.3);
+
+// One fish as both renderers draw it, its species blended in by morph
+export interface FishShape {
+  bodyLength: number;
+  // Half the body's height
+  size: number;
+  // Tail tips' current offset from the midline
+  tailY: number;
+  billLength: number;
+  // Dorsal fin peak's height above its base (see DORSAL), 0 for none
+  dorsal: number;
+  color: RGB;
+  alpha: number;
+}
+
+// Dorsal fin along the back, as fractions of body length and girth: base from
+// front to back at baseY, peak at peakX
+export const DORSAL = { front: 0.35, back: -0.45, peakX: -0.05, baseY: -0.7 };
+
+export const createFishShape = (): FishShape => ({
+  bodyLength: 0,
+  size: 0,
+  tailY: 0,
+  billLength: 0,
+  dorsal: 0,
+  color: [0, 0, 0],
+  alpha: 0
+});
+
+// Fills in fish i's shape; reuses `shape`, since this runs per fish per frame
+export const fishShape = (fish: FishArrays, i: number, shape: FishShape) => {
+  const species = speciesFromCode(fish.species[i]);
+  const morph = fish.morph[i];
+  const size = fishBodySize(fish, i) * speciesTrait(species, morph, 'girth');
+  const bodyLength = fish.bodyLength[i] * speciesTrait(species, morph, 'length');
+
+  shape.bodyLength = bodyLength;
+  shape.size = size;
+  shape.tailY = Math.sin(fish.tailOffset[i]) * size * speciesTrait(species, morph, 'tailSpread');
+  shape.billLength = bodyLength * speciesTrait(species, morph, 'bill');
+  shape.dorsal = size * speciesTrait(species, morph, 'dorsal');
+  for (let c = 0; c < 3; c++) {
+    const base = fish.color[i * 3 + c];
+    shape.color[c] = base + (fish.speciesColor[i * 3 + c] - base) * morph;
+  }
+  shape.alpha = fishOpacity(fish, i);
+  return shape;
+};
+
+// Predators are pale ghosts rather than dark shapes, since the layer is
+// screen-blended and anything dark would vanish
+export const PREDATOR_SILHOUETTE = { color: '#b2dfdb', alpha: 0.22 };
+
+// Half-height of a predator's tail fork; it beats but never folds flat
+export const predatorTailSpread = (predator: Predator) =>
+  predator.size * (0.75 + 0.25 * Math.sin(predator.tailOffset));
+
+const scratchShape = createFishShape();
+
+// Draw individual fish with realistic appearance
+const drawFish = (ctx: FishContext, fish: FishArrays, i: number) => {
+  ctx.save();
+  ctx.translate(fish.x[i], fish.y[i]);
+  ctx.rotate(fish.rotationAngle[i]);
+
+  const { bodyLength, size: currentSize, tailY, billLength, dorsal, color, alpha } = fishShape(fish, i, scratchShape);
+  const fill = `rgb(${color.map(c => Math.round(c * 255)).join(', ')})`;
+
+  ctx.globalAlpha = alpha;
+  ctx.strokeStyle = fill;
+  ctx.fillStyle = fill;
+  ctx.lineWidth = 1.5;
+
+  // Draw fish body (elongated ellipse)
+  ctx.beginPath();
+  ctx.ellipse(0, 0, bodyLength, currentSize, 0, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+
+  // Draw fish tail with swimming animation
+  const tailX = -bodyLength * 0.8;
+
+  ctx.beginPath();
+  ctx.moveTo(tailX, 0);
+  ctx.lineTo(tailX - currentSize * 2, tailY);
+  ctx.lineTo(tailX - currentSize * 1.5, 0);
+  ctx.lineTo(tailX - currentSize * 2, -tailY);
+  ctx.closePath();
+  ctx.fill();
+
+  // Species features: dorsal fin and bill
+  if (dorsal > 0) {
+    ctx.beginPath();
+    ctx.moveTo(bodyLength * DORSAL.front, currentSize * DORSAL.baseY);
+    ctx.lineTo(bodyLength * DORSAL.peakX, currentSize * DORSAL.baseY - dorsal);
+    ctx.lineTo(bodyLength * DORSAL.back, currentSize * DORSAL.baseY);
+    ctx.closePath();
+    ctx.fill();
+  }
+
+  if (billLength > 0) {
+    ctx.beginPath();
+    ctx.moveTo(bodyLength * 0.9, currentSize * 0.15);
+    ctx.lineTo(bodyLength + billLength, 0);
+    ctx.lineTo(bodyLength * 0.9, -currentSize * 0.15);
+    ctx.closePath();
+    ctx.fill();
+  }
+
+  // Draw fish eye
+  ctx.fillStyle = '#ffffff';
+  ctx.beginPath();
+  ctx.arc(bodyLength * 0.3, -currentSize * 0.3, currentSize * 0.3, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.fillStyle = '#000000';
+  ctx.beginPath();
+  ctx.arc(bodyLength * 0.4, -currentSize * 0.3, currentSize * 0.15, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.restore();
+};
+
+// Body, forked tail and, for swordfish, the bill; no eye
+const drawPredator = (ctx: FishContext, predator: Predator) => {
+  const { bodyLength, size, billLength } = predator;
+
+  ctx.save();
+  ctx.translate(predator.x, predator.y);
+  ctx.rotate(predator.rotationAngle);
+  ctx.globalAlpha = PREDATOR_SILHOUETTE.alpha;
+  ctx.fillStyle = PREDATOR_SILHOUETTE.color;
+
+  ctx.beginPath();
+  ctx.ellipse(0, 0, bodyLength, size, 0, 0, Math.PI * 2);
+  ctx.fill();
+
+  const tailX = -bodyLength * 0.8;
+  const spread = predatorTailSpread(predator);
+  ctx.beginPath();
+  ctx.moveTo(tailX, 0);
+  ctx.lineTo(tailX - size * 2, spread);
+  ctx.lineTo(tailX - size * 1.5, 0);
+  ctx.lineTo(tailX - size * 2, -spread);
+  ctx.closePath();
+  ctx.fill();
+
+  if (billLength > 0) {
+    ctx.beginPath();
+    ctx.moveTo(bodyLength * 0.9, size * 0.15);
+    ctx.lineTo(bodyLength + billLength, 0);
+    ctx.lineTo(bodyLength * 0.9, -size * 0.15);
+    ctx.closePath();
+    ctx.fill();
+  }
+
+  ctx.restore();
+};
+
+export const drawFishSchool = (ctx: FishContext, fish: FishArrays, predators: Predator[], width: number, height: number) => {
+  // Clear with slight trailing effect for fluid motion
+  ctx.fillStyle = `rgba(${TRAIL_FADE.join(', ')})`;
+  ctx.fillRect(0, 0, width, height);
+
+  for (let i = 0; i < fish.count; i++) drawFish(ctx, fish, i);
+  predators.forEach(p => drawPredator(ctx, p));
+};
+
+export const createCanvasFishRenderer = (canvas: FishCanvas): FishRenderer => {
+  // Both canvas types return their own 2D context type
+  const ctx = canvas.getContext('2d') as FishContext | null;
+
+  return {
+    kind: 'canvas2d',
+    draw: (fish, predators, width, height) => {
+      if (ctx) drawFishSchool(ctx, fish, predators, width, height);
+    },
+    dispose: () => {}
+  };
+};
@@ -0,0 +1,80 @@
+import { FishWorkerMessage } from './protocol';
+import { FishRenderer, createFishRenderer, fishCountFor } from './renderer';
+import { FishInputs, FishSimulation, createFishSimulation } from './simulation';
+
+// Runs the fish school off the main thread, drawing into the transferred
+// OffscreenCanvas. It keeps its own frame loop, so React renders and GSAP
+// tweens on the page can't stall the fish.
+
+// Longest step taken after the worker was throttled or the tab was hidden
+const MAX_DELTA = 100;
+
+let canvas: OffscreenCanvas | null = null;
+let renderer: FishRenderer | null = null;
+let simulation: FishSimulation | null = null;
+let inputs: FishInputs | null = null;
+let frameHandle: number | undefined;
+let lastTime = 0;
+
+// Dedicated workers have rAF in Chrome and Firefox; elsewhere fall back to a timer
+const scheduleFrame = (callback: (time: number) => void) =>
+  typeof requestAnimationFrame === 'function'
+    ? requestAnimationFrame(callback)
+    : (setTimeout(() => callback(performance.now()), 16) as unknown as number);
+
+const cancelFrame = (handle: number) => {
+  if (typeof cancelAnimationFrame === 'function') cancelAnimationFrame(handle);
+  else clearTimeout(handle);
+};
+
+const frame = (time: number) => {
+  frameHandle = scheduleFrame(frame);
+  if (!renderer || !simulation || !inputs) return;
+
+  const delta = lastTime ? Math.min(time - lastTime, MAX_DELTA) : 0;
+  lastTime = time;
+
+  simulation.step(delta, inputs);
+  renderer.draw(simulation.fish, simulation.predators, simulation.width, simulation.height);
+};
+
+const stop = () => {
+  if (frameHandle !== undefined) cancelFrame(frameHandle);
+  frameHandle = undefined;
+  renderer?.dispose();
+  canvas = null;
+  renderer = null;
+  simulation = null;
+};
+
+self.addEventListener('message', (e: MessageEvent<FishWorkerMessage>) => {
+  const message = e.data;
+  switch (message.type) {
+    case 'init':
+      canvas = message.canvas;
+      canvas.width = message.width;
+      canvas.height = message.height;
+      renderer = createFishRenderer(canvas, message.renderer);
+      simulation = createFishSimulation(message.width, message.height, fishCountFor(renderer, message.fishCount));
+      inputs = message.inputs;
+      lastTime = 0;
+      if (frameHandle === undefined) frameHandle = scheduleFrame(frame);
+      break;
+    case 'resize':
+      if (!canvas || !simulation) return;
+      canvas.width = message.width;
+      canvas.height = message.height;
+      simulation.resize(message.width, message.height);
+      break;
+    case 'fishCount':
+      if (renderer) simulation?.setFishCount(fishCountFor(renderer, message.fishCount));
+      break;
+    case 'inputs':
+      inputs = message.inputs;
+      break;
+    case 'dispose':
+      stop();
+      self.close();
+      break;
+  }
+});
@@ -0,0 +1,159 @@
+import { getInput } from '../input/inputStore';
+import { ObstacleRect, getObstacleRects } from '../input/obstacles';
+import { LAYER_PRIORITY, registerLayer } from '../render/frameScheduler';
+import { getScene } from '../scene/sceneBlend';
+import { SECTIONS } from '../scene/scenes';
+import { FishWorkerMessage } from './protocol';
+import { FishRendererKind, createFishRenderer, fishCountFor } from './renderer';
+import { FishInputs, OBSTACLE_AVOIDANCE, compassHeading, createFishSimulation } from './simulation';
+
+// Runs the fish school for a canvas: in a worker when the browser can hand the
+// canvas over as an OffscreenCanvas, otherwise (or once a worker fails) on the
+// main thread through the frame scheduler. Either way the caller only
+// forwards size and fish count.
+
+export interface FishHost {
+  // 'worker' or 'main-thread', for debugging
+  readonly mode: 'worker' | 'main-thread';
+  resize: (width: number, height: number) => void;
+  setFishCount: (count: number) => void;
+  dispose: () => void;
+}
+
+// Scroll, pointer and clicks from the input store, schooling from the scene
+// blend. A click from before the host started doesn't drop bait. The species
+// follows whatever is open in the overlay, else the card on screen.
+const createInputReader = () => {
+  const staleClickId = getInput().lastClick?.id;
+
+  return (): FishInputs => {
+    const { scrollProgress, section, hovering, clicked, pointer, pointerInside, lastClick, openSpecies } = getInput();
+    return {
+      compassRotation: compassHeading(scrollProgress, hovering, clicked),
+      behaviour: getScene().fish,
+      pointer: pointerInside ? pointer : null,
+      baitBall: lastClick && lastClick.id !== staleClickId ? lastClick : null,
+      obstacles: getObstacleRects(OBSTACLE_AVOIDANCE.margin),
+      species: openSpecies ?? SECTIONS[section]?.card?.species ?? null
+    };
+  };
+};
+
+const sameRects = (a: ObstacleRect[], b: ObstacleRect[]) =>
+  a.length === b.length &&
+  a.every((rect, i) =>
+    rect.left === b[i].left && rect.top === b[i].top && rect.right === b[i].right && rect.bottom === b[i].bottom
+  );
+
+const sameInputs = (a: FishInputs, b: FishInputs) =>
+  a.compassRotation === b.compassRotation &&
+  a.behaviour.speed === b.behaviour.speed &&
+  a.behaviour.cohesion === b.behaviour.cohesion &&
+  a.behaviour.wander === b.behaviour.wander &&
+  a.behaviour.predators === b.behaviour.predators &&
+  a.pointer?.x === b.pointer?.x &&
+  a.pointer?.y === b.pointer?.y &&
+  a.baitBall?.id === b.baitBall?.id &&
+  a.species === b.species &&
+  sameRects(a.obstacles, b.obstacles);
+
+export const supportsFishWorker = () =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  'transferControlToOffscreen' in HTMLCanvasElement.prototype;
+
+const createWorkerHost = (canvas: HTMLCanvasElement, width: number, height: number, fishCount: number, renderer: FishRendererKind): FishHost => {
+  const worker = new Worker(new URL('./fish.worker.ts', import.meta.url), { type: 'module' });
+  const post = (message: FishWorkerMessage, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+
+  const offscreen = canvas.transferControlToOffscreen();
+  const readInputs = createInputReader();
+  let inputs = readInputs();
+  post({ type: 'init', canvas: offscreen, width, height, fishCount, renderer, inputs }, [offscreen]);
+
+  // Sampled on the page's frames, but only posted when something moved
+  const unregister = registerLayer('fish-inputs', () => {
+    const next = readInputs();
+    if (sameInputs(next, inputs)) return;
+    inputs = next;
+    post({ type: 'inputs', inputs });
+  }, { priority: LAYER_PRIORITY.normal });
+
+  // Kept current so a fallback starts where the worker left off
+  let size = { width, height };
+  let count = fishCount;
+  let fallback: { host: FishHost; canvas: HTMLCanvasElement } | null = null;
+
+  // The worker took the canvas with it, so carry on on the main thread in a
+  // fresh canvas swapped into its place
+  worker.addEventListener('error', () => {
+    if (fallback) return;
+    unregister();
+    worker.terminate();
+
+    const replacement = document.createElement('canvas');
+    replacement.className = canvas.className;
+    canvas.replaceWith(replacement);
+    fallback = { host: createMainThreadHost(replacement, size.width, size.height, count, renderer), canvas: replacement };
+  });
+
+  return {
+    get mode() {
+      return fallback ? fallback.host.mode : 'worker';
+    },
+    resize: (nextWidth, nextHeight) => {
+      size = { width: nextWidth, height: nextHeight };
+      if (fallback) fallback.host.resize(nextWidth, nextHeight);
+      else post({ type: 'resize', width: nextWidth, height: nextHeight });
+    },
+    setFishCount: nextCount => {
+      count = nextCount;
+      if (fallback) fallback.host.setFishCount(nextCount);
+      else post({ type: 'fishCount', fishCount: nextCount });
+    },
+    dispose: () => {
+      if (fallback) {
+        fallback.host.dispose();
+        fallback.canvas.remove();
+        return;
+      }
+      unregister();
+      post({ type: 'dispose' });
+      worker.terminate();
+    }
+  };
+};
+
+const createMainThreadHost = (canvas: HTMLCanvasElement, width: number, height: number, fishCount: number, rendererKind: FishRendererKind): FishHost => {
+  canvas.width = width;
+  canvas.height = height;
+  const renderer = createFishRenderer(canvas, rendererKind);
+  const simulation = createFishSimulation(width, height, fishCountFor(renderer, fishCount));
+  const readInputs = createInputReader();
+
+  const unregister = registerLayer('fish-school', ({ delta }) => {
+    simulation.step(delta, readInputs());
+    renderer.draw(simulation.fish, simulation.predators, simulation.width, simulation.height);
+  }, { priority: LAYER_PRIORITY.high });
+
+  return {
+    mode: 'main-thread',
+    resize: (nextWidth, nextHeight) => {
+      canvas.width = nextWidth;
+      canvas.height = nextHeight;
+      simulation.resize(nextWidth, nextHeight);
+    },
+    setFishCount: count => simulation.setFishCount(fishCountFor(renderer, count)),
+    dispose: () => {
+      unregister();
+      renderer.dispose();
+    }
+  };
+};
+
+// A canvas can only be transferred once, and keeps the context its renderer
+// took, so call this once per canvas element
+export const createFishHost = (canvas: HTMLCanvasElement, width: number, height: number, fishCount: number, renderer: FishRendererKind): FishHost =>
+  supportsFishWorker()
+    ? createWorkerHost(canvas, width, height, fishCount, renderer)
+    : createMainThreadHost(canvas, width, height, fishCount, renderer);
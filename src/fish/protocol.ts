@@ -0,0 +1,19 @@
+import { FishRendererKind } from './renderer';
+import { FishInputs } from './simulation';
+
+// Messages from the page to the fish worker. The worker owns the canvas after
+// `init` and never posts back.
+export type FishWorkerMessage =
+  | {
+      type: 'init';
+      canvas: OffscreenCanvas;
+      width: number;
+      height: number;
+      fishCount: number;
+      renderer: FishRendererKind;
+      inputs: FishInputs;
+    }
+  | { type: 'resize'; width: number; height: number }
+  | { type: 'fishCount'; fishCount: number }
+  | { type: 'inputs'; inputs: FishInputs }
+  | { type: 'dispose' };
@@ -0,0 +1,32 @@
+import { createCanvasFishRenderer } from './draw';
+import { FishArrays, Predator } from './simulation';
+import { createWebGLFishRenderer } from './webglRenderer';
+
+// Draws the school into its canvas, in the worker or on the main thread.
+// WebGL draws every fish in one instanced call; Canvas2D paths each fish and
+// is the fallback wherever WebGL or instancing is missing.
+
+export type FishRendererKind = 'webgl' | 'canvas2d';
+
+export type FishCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+export interface FishRenderer {
+  readonly kind: FishRendererKind;
+  // One frame: fades the previous one for the trails, then draws the fish
+  // and any predator silhouettes over them. width / height are the canvas
+  // size, which the caller keeps current.
+  draw: (fish: FishArrays, predators: Predator[], width: number, height: number) => void;
+  dispose: () => void;
+}
+
+// Canvas2D paths each fish one by one, which past this many costs more than
+// a frame, so the school is held to it whatever the quality tier asks for
+export const CANVAS2D_MAX_FISH = 120;
+
+export const fishCountFor = (renderer: FishRenderer, count: number) =>
+  renderer.kind === 'canvas2d' ? Math.min(count, CANVAS2D_MAX_FISH) : count;
+
+// A canvas keeps whichever context it hands out first, so WebGL is only
+// attempted when it's known to work and Canvas2D is still available after.
+export const createFishRenderer = (canvas: FishCanvas, preferred: FishRendererKind): FishRenderer =>
+  (preferred === 'webgl' ? createWebGLFishRenderer(canvas) : null) ?? createCanvasFishRenderer(canvas);
@@ -0,0 +1,38 @@
+import { FishRendererKind } from './renderer';
+
+// Which fish renderer to ask for. WebGL unless ?fishRenderer=canvas2d, or
+// switch at runtime with setFishRenderer('canvas2d') to compare the two;
+// the fish layer rebuilds its canvas on a change. WebGL still falls back to
+// Canvas2D where it isn't available.
+
+const FISH_RENDERER_PARAM = 'fishRenderer';
+
+export const DEFAULT_FISH_RENDERER: FishRendererKind = 'webgl';
+
+const isRendererKind = (value: unknown): value is FishRendererKind => value === 'webgl' || value === 'canvas2d';
+
+const readInitialRenderer = (): FishRendererKind => {
+  if (typeof window === 'undefined') return DEFAULT_FISH_RENDERER;
+  const param = new URLSearchParams(window.location.search).get(FISH_RENDERER_PARAM);
+  return isRendererKind(param) ? param : DEFAULT_FISH_RENDERER;
+};
+
+type Listener = (kind: FishRendererKind) => void;
+
+const listeners = new Set<Listener>();
+let requested = readInitialRenderer();
+
+export const getFishRenderer = () => requested;
+
+export const subscribeFishRenderer = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const setFishRenderer = (kind: FishRendererKind) => {
+  if (kind === requested) return;
+  requested = kind;
+  listeners.forEach(listener => listener(kind));
+};
@@ -0,0 +1,663 @@
+import { ObstacleRect } from '../input/obstacles';
+import { FishScene } from '../scene/scenes';
+import { FishSpecies } from '../types';
+import { RGB, parseColor } from './color';
+import { SPECIES, SPECIES_MORPH, speciesCode, speciesFromCode, speciesTrait } from './species';
+import { createSpatialHash } from './spatialHash';
+
+// Boid flocking for the fish-school layer. Plain data and functions with no
+// DOM access, so the same code runs in the fish worker or, without
+// OffscreenCanvas support, on the main thread.
+
+// Fish roles; the first fish of each school leads and the next two scout
+export const FISH_ROLE = { follower: 0, scout: 1, leader: 2 } as const;
+
+// Every fish as parallel typed arrays, fish i at index i of each, so a step
+// over thousands of fish reads and writes in place and allocates nothing.
+// Arrays may be longer than count.
+export interface FishArrays {
+  count: number;
+  x: Float64Array;
+  y: Float64Array;
+  vx: Float64Array;
+  vy: Float64Array;
+  size: Float64Array;
+  bodyLength: Float64Array;
+  energy: Float64Array;
+  alpha: Float64Array;
+  age: Float64Array;
+  tailOffset: Float64Array;
+  rotationAngle: Float64Array;
+  // 0 calm, 1 fleeing flat out; lifts the speed limit and fades each step
+  panic: Float64Array;
+  // 0 generic to 1 fully its species; see SPECIES_MORPH
+  morph: Float64Array;
+  morphPace: Float64Array;
+  // FISH_ROLE
+  role: Uint8Array;
+  schoolId: Uint8Array;
+  // Species it's shaped as, see speciesCode
+  species: Uint8Array;
+  // RGB triples, 0-1: its own colour, and its colour from the species
+  // palette, blended in with morph
+  color: Float32Array;
+  speciesColor: Float32Array;
+}
+
+export type PredatorSpecies = 'tuna' | 'swordfish';
+
+// A silhouette crossing the screen; the school scatters around it
+export interface Predator {
+  species: PredatorSpecies;
+  x: number;
+  y: number;
+  vx: number;
+  rotationAngle: number;
+  bodyLength: number;
+  size: number;
+  // Swordfish bill past the nose; 0 for tuna
+  billLength: number;
+  tailOffset: number;
+}
+
+// Everything the simulation reads from the page, sent to the worker as a message
+export interface FishInputs {
+  compassRotation: number;
+  behaviour: FishScene;
+  // Cursor in canvas pixels, or null when it's off the page
+  pointer: { x: number; y: number } | null;
+  // Latest click; a new id starts a bait-ball there
+  baitBall: { x: number; y: number; id: number } | null;
+  // Story cards and the overlay, in canvas pixels
+  obstacles: ObstacleRect[];
+  // Species the school should take the shape of, null for generic fish
+  species: FishSpecies | null;
+}
+
+// Fish school configuration (total fish count comes from the quality tier)
+export const FISH_CONFIGS = {
+  numSchools: 4,
+  schoolSize: 15,
+  maxSpeed: 0.8, // Much slower for fluid movement
+  minSpeed: 0.2,
+  separationRadius: 25,
+  alignmentRadius: 40,
+  cohesionRadius: 60,
+  // Separation sums every close neighbour's push, harder the closer it is,
+  // so crowding pushes back: schools of thousands keep about a body length
+  // between fish instead of piling into a blob
+  avoidanceForce: 0.6,
+  alignmentForce: 0.02,
+  cohesionForce: 0.01,
+  wanderForce: 0.005,
+  compassInfluence: 0.3,
+  // A school this size starts within spawnRadius of its centre; bigger ones
+  // spread wider, so every school starts at about the same density
+  spawnRadius: 100,
+  // Extra speed limit, as a multiple of maxSpeed, for a fully panicked fish
+  panicSpeedBoost: 3,
+  // Fraction of panic kept each step
+  panicDecay: 0.98
+};
+
+// The cursor hunts the school: fish inside the radius turn tail, harder the
+// closer it is
+export const CURSOR_PREDATOR = {
+  fleeRadius: 110,
+  fleeForce: 0.12
+};
+
+// A click drops bait: nearby schools swirl in to a ball around it, then
+// explode away once the gather time is up
+export const BAIT_BALL = {
+  gatherMs: 2600,
+  burstMs: 900,
+  attractRadius: 320,
+  attractForce: 0.09,
+  swirlForce: 0.025,
+  // Excitement while gathering, so distant fish arrive in time
+  gatherPanic: 0.6,
+  burstRadius: 260,
+  burstForce: 0.35
+};
+
+// Cards and the overlay are solid: fish within the margin are pushed off and
+// turned to slide along the edge, and any caught inside are pushed out the
+// nearest side. A rect covering most of the canvas (the overlay once fully
+// open) is ignored, since there's nowhere to flow around it.
+export const OBSTACLE_AVOIDANCE = {
+  margin: 40,
+  force: 0.12,
+  // Share of the speed into an edge turned away each step, at the edge
+  slide: 0.2,
+  maxCoverage: 0.85
+};
+
+// Rare tuna or swordfish crossing, in sections whose scene asks for
+// predators (see FishScene.predators)
+export const PREDATOR_PASS = {
+  // Chance of a crossing starting, per second, at full scene strength
+  chancePerSecond: 0.06,
+  // Quiet time after one crossing before the next can start
+  minGapMs: 9000,
+  // Pixels per step
+  speed: 2.4,
+  fleeRadius: 200,
+  fleeForce: 0.15,
+  species: {
+    tuna: { bodyLength: 70, size: 22, billLength: 0 },
+    swordfish: { bodyLength: 85, size: 14, billLength: 55 }
+  } satisfies Record<PredatorSpecies, Pick<Predator, 'bodyLength' | 'size' | 'billLength'>>
+};
+
+// Nothing further than this affects a fish
+const NEIGHBOUR_RADIUS = Math.max(
+  FISH_CONFIGS.separationRadius,
+  FISH_CONFIGS.alignmentRadius,
+  FISH_CONFIGS.cohesionRadius
+);
+const NEIGHBOUR_RADIUS_SQUARED = NEIGHBOUR_RADIUS * NEIGHBOUR_RADIUS;
+// Compared squared, so most pairs never need a square root
+const SEPARATION_RADIUS_SQUARED = FISH_CONFIGS.separationRadius ** 2;
+const ALIGNMENT_RADIUS_SQUARED = FISH_CONFIGS.alignmentRadius ** 2;
+const COHESION_RADIUS_SQUARED = FISH_CONFIGS.cohesionRadius ** 2;
+// Neighbour grid cells; smaller cells mean fewer out-of-range candidates but
+// more cells per query
+const NEIGHBOUR_CELL_SIZE = NEIGHBOUR_RADIUS / 2;
+
+// Nautical fish colors
+const FISH_COLORS = [
+  '#64ffda', // Teal
+  '#26a69a', // Dark teal
+  '#4db6ac', // Medium teal
+  '#80cbc4', // Light teal
+  '#b2dfdb', // Very light teal
+  '#e0f2f1', // Pale teal
+  '#d4af37', // Gold
+  '#c5a028'  // Dark gold
+];
+
+// Heading the fish react to: turns with scroll, nudged by card hover and click
+export const compassHeading = (scrollProgress: number, hovering: boolean, clicked: boolean) =>
+  scrollProgress * Math.PI * 4 + (hovering ? 0.2 : 0) + (clicked ? 0.5 : 0);
+
+const pick = <T>(items: T[]) => items[Math.floor(Math.random() * items.length)];
+
+const FLOAT_FIELDS = [
+  'x', 'y', 'vx', 'vy', 'size', 'bodyLength', 'energy', 'alpha', 'age',
+  'tailOffset', 'rotationAngle', 'panic', 'morph', 'morphPace'
+] as const;
+const BYTE_FIELDS = ['role', 'schoolId', 'species'] as const;
+const RGB_FIELDS = ['color', 'speciesColor'] as const;
+
+const allocateFish = (capacity: number): FishArrays => {
+  const fish = { count: 0 } as FishArrays;
+  FLOAT_FIELDS.forEach(field => { fish[field] = new Float64Array(capacity); });
+  BYTE_FIELDS.forEach(field => { fish[field] = new Uint8Array(capacity); });
+  RGB_FIELDS.forEach(field => { fish[field] = new Float32Array(capacity * 3); });
+  return fish;
+};
+
+// What neighbours read of each other, copied out in grid-cell order each step
+// so the neighbour loop walks memory in sequence
+const allocateCellOrder = (capacity: number) => ({
+  x: new Float64Array(capacity),
+  y: new Float64Array(capacity),
+  vx: new Float64Array(capacity),
+  vy: new Float64Array(capacity),
+  schoolId: new Uint8Array(capacity)
+});
+
+// Appends fish `from[i]` to `to`
+const copyFish = (from: FishArrays, i: number, to: FishArrays) => {
+  const j = to.count++;
+  FLOAT_FIELDS.forEach(field => { to[field][j] = from[field][i]; });
+  BYTE_FIELDS.forEach(field => { to[field][j] = from[field][i]; });
+  RGB_FIELDS.forEach(field => to[field].set(from[field].subarray(i * 3, i * 3 + 3), j * 3));
+};
+
+const setRGB = (rgb: Float32Array, i: number, [r, g, b]: RGB) => {
+  rgb[i * 3] = r;
+  rgb[i * 3 + 1] = g;
+  rgb[i * 3 + 2] = b;
+};
+
+// Appends a fish within `spread` of its school's centre; the first few of
+// each school lead and scout
+const spawnFish = (fish: FishArrays, school: number, schoolCenterX: number, schoolCenterY: number, indexInSchool: number, spread: number) => {
+  const i = fish.count++;
+  const angle = Math.random() * Math.PI * 2;
+  // Even over the disc, so a wide spread isn't crowded in the middle
+  const distance = Math.sqrt(Math.random()) * spread;
+  const color = parseColor(pick(FISH_COLORS));
+
+  fish.x[i] = schoolCenterX + Math.cos(angle) * distance;
+  fish.y[i] = schoolCenterY + Math.sin(angle) * distance;
+  fish.vx[i] = (Math.random() - 0.5) * FISH_CONFIGS.maxSpeed;
+  fish.vy[i] = (Math.random() - 0.5) * FISH_CONFIGS.maxSpeed;
+  fish.size[i] = 2 + Math.random() * 4;
+  fish.role[i] = indexInSchool === 0 ? FISH_ROLE.leader : (indexInSchool < 3 ? FISH_ROLE.scout : FISH_ROLE.follower);
+  fish.age[i] = Math.random() * 1000;
+  fish.schoolId[i] = school;
+  fish.energy[i] = 0.5 + Math.random() * 0.5;
+  fish.alpha[i] = 0.6 + Math.random() * 0.4;
+  fish.bodyLength[i] = 8 + Math.random() * 12;
+  fish.tailOffset[i] = 0;
+  fish.rotationAngle[i] = angle;
+  fish.panic[i] = 0;
+  fish.species[i] = 0;
+  fish.morph[i] = 0;
+  fish.morphPace[i] = SPECIES_MORPH.minPace + Math.random() * (SPECIES_MORPH.maxPace - SPECIES_MORPH.minPace);
+  setRGB(fish.color, i, color);
+  setRGB(fish.speciesColor, i, color);
+};
+
+// Shrinks a fish back to generic before it takes a new species, then grows it in
+const updateMorph = (fish: FishArrays, i: number, species: FishSpecies | null, delta: number) => {
+  const change = (delta / SPECIES_MORPH.durationMs) * fish.morphPace[i];
+  const code = speciesCode(species);
+  if (fish.species[i] !== code) {
+    fish.morph[i] = Math.max(0, fish.morph[i] - change);
+    if (fish.morph[i] > 0) return;
+    fish.species[i] = code;
+    if (species) setRGB(fish.speciesColor, i, parseColor(pick(SPECIES[species].colors)));
+    else fish.speciesColor.set(fish.color.subarray(i * 3, i * 3 + 3), i * 3);
+  } else if (species) {
+    fish.morph[i] = Math.min(1, fish.morph[i] + change);
+  }
+};
+
+// Pushes fish i away from (x, y) when inside radius, and panics it to match
+const flee = (fish: FishArrays, i: number, x: number, y: number, radius: number, force: number) => {
+  const dx = fish.x[i] - x;
+  const dy = fish.y[i] - y;
+  const distance = Math.sqrt(dx * dx + dy * dy);
+  if (distance >= radius || distance === 0) return;
+
+  const closeness = 1 - distance / radius;
+  fish.vx[i] += (dx / distance) * force * closeness;
+  fish.vy[i] += (dy / distance) * force * closeness;
+  fish.panic[i] = Math.max(fish.panic[i], closeness);
+};
+
+// Steers fish i around one rect, per OBSTACLE_AVOIDANCE
+const avoidObstacle = (fish: FishArrays, i: number, rect: ObstacleRect) => {
+  const { margin, force, slide } = OBSTACLE_AVOIDANCE;
+  const x = fish.x[i];
+  const y = fish.y[i];
+  const inside = x > rect.left && x < rect.right && y > rect.top && y < rect.bottom;
+
+  if (inside) {
+    // Out through the nearest side
+    const toLeft = x - rect.left;
+    const toRight = rect.right - x;
+    const toTop = y - rect.top;
+    const toBottom = rect.bottom - y;
+    const nearest = Math.min(toLeft, toRight, toTop, toBottom);
+    if (nearest === toLeft) fish.vx[i] -= force * 2;
+    else if (nearest === toRight) fish.vx[i] += force * 2;
+    else if (nearest === toTop) fish.vy[i] -= force * 2;
+    else fish.vy[i] += force * 2;
+    return;
+  }
+
+  // Nearest point on the rect, and the outward normal from it
+  const dx = x - Math.min(Math.max(x, rect.left), rect.right);
+  const dy = y - Math.min(Math.max(y, rect.top), rect.bottom);
+  const distance = Math.sqrt(dx * dx + dy * dy);
+  if (distance >= margin || distance === 0) return;
+
+  const nx = dx / distance;
+  const ny = dy / distance;
+  const closeness = 1 - distance / margin;
+  fish.vx[i] += nx * force * closeness;
+  fish.vy[i] += ny * force * closeness;
+
+  // Turn speed heading into the rect along its edge instead
+  const into = fish.vx[i] * nx + fish.vy[i] * ny;
+  if (into < 0) {
+    fish.vx[i] -= nx * into * slide * closeness;
+    fish.vy[i] -= ny * into * slide * closeness;
+  }
+};
+
+// Enters from a random side at a random height, swimming straight across
+const createPredator = (width: number, height: number): Predator => {
+  const species: PredatorSpecies = Math.random() < 0.5 ? 'tuna' : 'swordfish';
+  const shape = PREDATOR_PASS.species[species];
+  const fromLeft = Math.random() < 0.5;
+  const margin = shape.bodyLength * 2 + shape.billLength;
+
+  return {
+    species,
+    ...shape,
+    x: fromLeft ? -margin : width + margin,
+    y: height * (0.2 + Math.random() * 0.6),
+    vx: fromLeft ? PREDATOR_PASS.speed : -PREDATOR_PASS.speed,
+    rotationAngle: fromLeft ? 0 : Math.PI,
+    tailOffset: 0
+  };
+};
+
+export interface FishSimulation {
+  readonly fish: FishArrays;
+  readonly predators: Predator[];
+  readonly width: number;
+  readonly height: number;
+  resize: (width: number, height: number) => void;
+  setFishCount: (count: number) => void;
+  // delta in ms
+  step: (delta: number, inputs: FishInputs) => void;
+}
+
+export const createFishSimulation = (width: number, height: number, fishCount: number): FishSimulation => {
+  let fish = allocateFish(0);
+  let time = 0;
+  let lastCompassRotation = 0;
+  let predators: Predator[] = [];
+  let lastPredatorAt = -Infinity;
+  let baitBall: { x: number; y: number; startedAt: number } | null = null;
+  let lastBaitBallId: number | null = null;
+  const neighbours = createSpatialHash(NEIGHBOUR_CELL_SIZE);
+  // Reused every step: neighbour slices, and the obstacles fish steer around
+  const spans = new Int32Array(neighbours.spanRows(NEIGHBOUR_RADIUS) * 2);
+  const solidObstacles: ObstacleRect[] = [];
+  let cellOrder = allocateCellOrder(0);
+
+  // Quality tier changes thin out or top up each school in place
+  const setFishCount = (count: number) => {
+    const perSchool = Math.floor(count / FISH_CONFIGS.numSchools);
+    const spread = FISH_CONFIGS.spawnRadius * Math.sqrt(Math.max(1, perSchool / FISH_CONFIGS.schoolSize));
+    const next = allocateFish(perSchool * FISH_CONFIGS.numSchools);
+
+    for (let school = 0; school < FISH_CONFIGS.numSchools; school++) {
+      let members = 0;
+      let sumX = 0;
+      let sumY = 0;
+      for (let i = 0; i < fish.count && members < perSchool; i++) {
+        if (fish.schoolId[i] !== school) continue;
+        copyFish(fish, i, next);
+        sumX += fish.x[i];
+        sumY += fish.y[i];
+        members++;
+      }
+      const centerX = members ? sumX / members : Math.random() * width;
+      const centerY = members ? sumY / members : Math.random() * height;
+      for (let i = members; i < perSchool; i++) {
+        spawnFish(next, school, centerX, centerY, i, spread);
+      }
+    }
+    fish = next;
+  };
+
+  setFishCount(fishCount);
+
+  // Bait-balls start on a new click, gather, burst, then end
+  const updateBaitBall = (input: FishInputs['baitBall']) => {
+    if (input && input.id !== lastBaitBallId) {
+      lastBaitBallId = input.id;
+      baitBall = { x: input.x, y: input.y, startedAt: time };
+    }
+    if (baitBall && (time - baitBall.startedAt) * 1000 > BAIT_BALL.gatherMs + BAIT_BALL.burstMs) {
+      baitBall = null;
+    }
+  };
+
+  // Crossings start at random in predator sections and end off-screen
+  const updatePredators = (delta: number, strength: number) => {
+    predators.forEach(predator => {
+      predator.x += predator.vx;
+      predator.tailOffset += 0.12;
+    });
+    predators = predators.filter(predator => {
+      const margin = predator.bodyLength * 2 + predator.billLength;
+      return predator.x > -margin * 1.5 && predator.x < width + margin * 1.5;
+    });
+
+    const chance = PREDATOR_PASS.chancePerSecond * strength * (delta / 1000);
+    if (
+      predators.length === 0 &&
+      (time - lastPredatorAt) * 1000 > PREDATOR_PASS.minGapMs &&
+      Math.random() < chance
+    ) {
+      predators.push(createPredator(width, height));
+      lastPredatorAt = time;
+    }
+  };
+
+  // Flocking algorithm with fish-specific behaviors
+  const step = (delta: number, { compassRotation, behaviour, pointer, baitBall: baitBallInput, obstacles, species }: FishInputs) => {
+    time += delta / 1000;
+    const compassDelta = compassRotation - lastCompassRotation;
+    const isCompassTurning = Math.abs(compassDelta) > 0.001;
+
+    updateBaitBall(baitBallInput);
+    updatePredators(delta, behaviour.predators);
+    const baitBallBursting = baitBall !== null && (time - baitBall.startedAt) * 1000 > BAIT_BALL.gatherMs;
+    solidObstacles.length = 0;
+    for (const rect of obstacles) {
+      if ((rect.right - rect.left) * (rect.bottom - rect.top) < width * height * OBSTACLE_AVOIDANCE.maxCoverage) {
+        solidObstacles.push(rect);
+      }
+    }
+
+    const { count, x, y, vx, vy, schoolId, role, panic } = fish;
+
+    // Positions as of the start of the step; fish move about a pixel per step,
+    // well inside the cell size
+    neighbours.rebuild(x, y, count, width, height);
+    const entries = neighbours.entries;
+    if (cellOrder.x.length < count) cellOrder = allocateCellOrder(count);
+    const { x: cellX, y: cellY, vx: cellVx, vy: cellVy, schoolId: cellSchool } = cellOrder;
+    for (let e = 0; e < count; e++) {
+      const i = entries[e];
+      cellX[e] = x[i];
+      cellY[e] = y[i];
+      cellVx[e] = vx[i];
+      cellVy[e] = vy[i];
+      cellSchool[e] = schoolId[i];
+    }
+
+    for (let index = 0; index < count; index++) {
+      updateMorph(fish, index, species, delta);
+      const fishSpecies = speciesFromCode(fish.species[index]);
+      const morph = fish.morph[index];
+      const speciesSpeed = speciesTrait(fishSpecies, morph, 'speed');
+      const fishX = x[index];
+      const fishY = y[index];
+      const school = schoolId[index];
+
+      let separationX = 0, separationY = 0;
+      let alignmentX = 0, alignmentY = 0, alignmentWeight = 0;
+      let cohesionX = 0, cohesionY = 0, cohesionWeight = 0;
+
+      // Check neighboring fish for flocking behavior
+      const rows = neighbours.near(fishX, fishY, NEIGHBOUR_RADIUS, spans);
+      for (let r = 0; r < rows; r++) {
+        const end = spans[r * 2 + 1];
+        for (let e = spans[r * 2]; e < end; e++) {
+          if (entries[e] === index) continue;
+
+          const dx = fishX - cellX[e];
+          const dy = fishY - cellY[e];
+          // Most candidates from the surrounding cells are out of range
+          const distanceSquared = dx * dx + dy * dy;
+          if (distanceSquared >= NEIGHBOUR_RADIUS_SQUARED) continue;
+
+          // Same school preference
+          const schoolMultiplier = school === cellSchool[e] ? 1.5 : 0.3;
+
+          // Separation - avoid crowding
+          if (distanceSquared < SEPARATION_RADIUS_SQUARED && distanceSquared > 0) {
+            const distance = Math.sqrt(distanceSquared);
+            const push = (1 - distance / FISH_CONFIGS.separationRadius) * schoolMultiplier / distance;
+            separationX += dx * push;
+            separationY += dy * push;
+          }
+
+          // Alignment - match velocity
+          if (distanceSquared < ALIGNMENT_RADIUS_SQUARED) {
+            alignmentX += cellVx[e] * schoolMultiplier;
+            alignmentY += cellVy[e] * schoolMultiplier;
+            alignmentWeight += schoolMultiplier;
+          }
+
+          // Cohesion - move toward center of neighbors
+          if (distanceSquared < COHESION_RADIUS_SQUARED) {
+            cohesionX += cellX[e] * schoolMultiplier;
+            cohesionY += cellY[e] * schoolMultiplier;
+            cohesionWeight += schoolMultiplier;
+          }
+        }
+      }
+
+      // Apply flocking forces
+      vx[index] += separationX * FISH_CONFIGS.avoidanceForce;
+      vy[index] += separationY * FISH_CONFIGS.avoidanceForce;
+
+      // Weighted means, so the school preference tilts them without scaling them
+      if (alignmentWeight > 0) {
+        vx[index] += (alignmentX / alignmentWeight - vx[index]) * FISH_CONFIGS.alignmentForce;
+        vy[index] += (alignmentY / alignmentWeight - vy[index]) * FISH_CONFIGS.alignmentForce;
+      }
+
+      if (cohesionWeight > 0) {
+        const avgX = cohesionX / cohesionWeight;
+        const avgY = cohesionY / cohesionWeight;
+        // A panicked fish stops holding formation
+        const cohesion = FISH_CONFIGS.cohesionForce * behaviour.cohesion * (1 - panic[index]) *
+          speciesTrait(fishSpecies, morph, 'schooling');
+        vx[index] += (avgX - fishX) * cohesion;
+        vy[index] += (avgY - fishY) * cohesion;
+      }
+
+      // Compass rotation influence - fish scatter or regroup
+      if (isCompassTurning) {
+        const scatterForce = compassDelta * FISH_CONFIGS.compassInfluence;
+        const centerX = width / 2;
+        const centerY = height / 2;
+
+        // Fish scatter away from center when compass spins fast
+        if (Math.abs(compassDelta) > 0.01) {
+          const awayX = fishX - centerX;
+          const awayY = fishY - centerY;
+          const distance = Math.sqrt(awayX * awayX + awayY * awayY);
+          if (distance > 0) {
+            vx[index] += (awayX / distance) * scatterForce * 2;
+            vy[index] += (awayY / distance) * scatterForce * 2;
+          }
+        } else {
+          // Gentle spiral movement with slow compass rotation
+          const spiral = scatterForce * 10;
+          vx[index] += Math.cos(time * 0.01 + index) * spiral;
+          vy[index] += Math.sin(time * 0.01 + index) * spiral;
+        }
+      }
+
+      // Leader behavior - explore and guide
+      if (role[index] === FISH_ROLE.leader) {
+        const wanderAngle = time * 0.005 + index;
+        vx[index] += Math.cos(wanderAngle) * FISH_CONFIGS.wanderForce * 2 * behaviour.wander;
+        vy[index] += Math.sin(wanderAngle) * FISH_CONFIGS.wanderForce * 2 * behaviour.wander;
+      }
+
+      // Scout behavior - patrol edges
+      if (role[index] === FISH_ROLE.scout) {
+        const edgeAttraction = 0.001;
+        const distanceToEdge = Math.min(fishX, fishY, width - fishX, height - fishY);
+        if (distanceToEdge > 100) {
+          vx[index] += (width / 2 - fishX) * edgeAttraction;
+          vy[index] += (height / 2 - fishY) * edgeAttraction;
+        }
+      }
+
+      // Bait-ball - swirl in toward the bait, then scatter from it
+      if (baitBall && baitBallBursting) {
+        flee(fish, index, baitBall.x, baitBall.y, BAIT_BALL.burstRadius, BAIT_BALL.burstForce);
+      } else if (baitBall) {
+        const dx = baitBall.x - fishX;
+        const dy = baitBall.y - fishY;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        if (distance < BAIT_BALL.attractRadius && distance > 0) {
+          vx[index] += (dx / distance) * BAIT_BALL.attractForce - (dy / distance) * BAIT_BALL.swirlForce;
+          vy[index] += (dy / distance) * BAIT_BALL.attractForce + (dx / distance) * BAIT_BALL.swirlForce;
+          panic[index] = Math.max(panic[index], BAIT_BALL.gatherPanic);
+        }
+      }
+
+      // Predators - flee the cursor and any passing silhouette
+      if (pointer) {
+        flee(fish, index, pointer.x, pointer.y, CURSOR_PREDATOR.fleeRadius, CURSOR_PREDATOR.fleeForce);
+      }
+      for (const predator of predators) {
+        flee(fish, index, predator.x, predator.y, PREDATOR_PASS.fleeRadius, PREDATOR_PASS.fleeForce);
+      }
+
+      // Obstacles - flow around the cards and overlay
+      for (const rect of solidObstacles) {
+        avoidObstacle(fish, index, rect);
+      }
+
+      // Limit speed for fluid movement; panic lets a fish bolt
+      const speed = Math.sqrt(vx[index] * vx[index] + vy[index] * vy[index]);
+      const maxSpeed = FISH_CONFIGS.maxSpeed * behaviour.speed * speciesSpeed *
+        (fish.energy[index] + panic[index] * FISH_CONFIGS.panicSpeedBoost);
+      const minSpeed = FISH_CONFIGS.minSpeed * behaviour.speed * speciesSpeed;
+      if (speed > maxSpeed) {
+        vx[index] = (vx[index] / speed) * maxSpeed;
+        vy[index] = (vy[index] / speed) * maxSpeed;
+      }
+
+      // Ensure minimum speed for liveliness
+      if (speed < minSpeed) {
+        const angle = Math.atan2(vy[index], vx[index]);
+        vx[index] = Math.cos(angle) * minSpeed;
+        vy[index] = Math.sin(angle) * minSpeed;
+      }
+
+      // Update position
+      x[index] += vx[index];
+      y[index] += vy[index];
+
+      // Update rotation angle for realistic fish orientation
+      fish.rotationAngle[index] = Math.atan2(vy[index], vx[index]);
+
+      // Update tail animation
+      fish.tailOffset[index] += speed * 0.3 * speciesTrait(fishSpecies, morph, 'tailBeat');
+
+      // Wrap around screen edges
+      if (x[index] < 0) x[index] = width;
+      if (x[index] > width) x[index] = 0;
+      if (y[index] < 0) y[index] = height;
+      if (y[index] > height) y[index] = 0;
+
+      // Age and energy dynamics
+      fish.age[index] += 0.1;
+      fish.energy[index] = 0.5 + 0.5 * Math.sin(fish.age[index] * 0.01);
+      panic[index] *= FISH_CONFIGS.panicDecay;
+    }
+
+    lastCompassRotation = compassRotation;
+  };
+
+  return {
+    get fish() {
+      return fish;
+    },
+    get predators() {
+      return predators;
+    },
+    get width() {
+      return width;
+    },
+    get height() {
+      return height;
+    },
+    resize: (nextWidth, nextHeight) => {
+      width = nextWidth;
+      height = nextHeight;
+    },
+    setFishCount,
+    step
+  };
+};
@@ -0,0 +1,92 @@
+// Uniform-grid index for neighbour lookups in the flocking step.
+//
+// Points are bucketed into square cells with a counting sort, so a rebuild is
+// two passes over the points with no per-cell allocation. A query takes every
+// cell its circle's bounding box touches, so cells smaller than the radius
+// hand back fewer far-off candidates, at the cost of more cells per query.
+
+export interface SpatialHash {
+  // Re-buckets points 0..count-1; call once per step before querying
+  rebuild: (xs: ArrayLike<number>, ys: ArrayLike<number>, count: number, width: number, height: number) => void;
+  // Point indices grouped by cell, as of the last rebuild
+  readonly entries: Int32Array;
+  // Writes the slices of entries covering the cells within radius of (x, y)
+  // into spans as [start, end) pairs, one per grid row, and returns how many
+  // rows. spans needs room for spanRows(radius) rows. Candidates in the
+  // corners are out of range, so callers still check distance. Slices rather
+  // than a callback, so the flocking loop stays inline.
+  near: (x: number, y: number, radius: number, spans: Int32Array) => number;
+  spanRows: (radius: number) => number;
+}
+
+export const createSpatialHash = (cellSize: number): SpatialHash => {
+  let columns = 1;
+  let rows = 1;
+  // cellStart[c]..cellStart[c + 1] is cell c's slice of entries
+  let cellStart = new Int32Array(2);
+  let cellCursor = new Int32Array(1);
+  let entries = new Int32Array(0);
+  let cellOf = new Int32Array(0);
+
+  const column = (x: number) => Math.min(columns - 1, Math.max(0, Math.floor(x / cellSize)));
+  const row = (y: number) => Math.min(rows - 1, Math.max(0, Math.floor(y / cellSize)));
+
+  const rebuild = (xs: ArrayLike<number>, ys: ArrayLike<number>, count: number, width: number, height: number) => {
+    columns = Math.max(1, Math.ceil(width / cellSize));
+    rows = Math.max(1, Math.ceil(height / cellSize));
+    const cells = columns * rows;
+
+    if (cellStart.length < cells + 1) {
+      cellStart = new Int32Array(cells + 1);
+      cellCursor = new Int32Array(cells);
+    } else {
+      cellStart.fill(0, 0, cells + 1);
+    }
+    if (entries.length < count) {
+      entries = new Int32Array(count);
+      cellOf = new Int32Array(count);
+    }
+
+    // Count points per cell...
+    for (let i = 0; i < count; i++) {
+      const cell = column(xs[i]) + row(ys[i]) * columns;
+      cellOf[i] = cell;
+      cellStart[cell + 1]++;
+    }
+
+    // ...turn the counts into slice offsets...
+    for (let cell = 0; cell < cells; cell++) {
+      cellStart[cell + 1] += cellStart[cell];
+      cellCursor[cell] = cellStart[cell];
+    }
+
+    // ...and drop each point into its slice
+    for (let i = 0; i < count; i++) {
+      entries[cellCursor[cellOf[i]]++] = i;
+    }
+  };
+
+  const near = (x: number, y: number, radius: number, spans: Int32Array) => {
+    const firstColumn = column(x - radius);
+    const lastColumn = column(x + radius);
+    const firstRow = row(y - radius);
+    const lastRow = row(y + radius);
+
+    // Cells in a row are adjacent in entries, so each row is one slice
+    let span = 0;
+    for (let r = firstRow; r <= lastRow; r++) {
+      spans[span++] = cellStart[firstColumn + r * columns];
+      spans[span++] = cellStart[lastColumn + r * columns + 1];
+    }
+    return span / 2;
+  };
+
+  return {
+    rebuild,
+    get entries() {
+      return entries;
+    },
+    near,
+    spanRows: radius => Math.ceil((radius * 2) / cellSize) + 1
+  };
+};
@@ -0,0 +1,134 @@
+import { FishSpecies } from '../types';
+
+// What the school turns into when a card or product names a species (see
+// StoryCard.species / ProductItem.species). Shapes are multiples of the
+// generic fish below, so both renderers draw any species from the same few
+// numbers, and a fish part-way through morphing is a blend of the two.
+
+export interface SpeciesShape {
+  // Body length and girth, as multiples of the fish's own
+  length: number;
+  girth: number;
+  // Bill past the nose, as a fraction of body length
+  bill: number;
+  // Dorsal fin height, as a fraction of girth
+  dorsal: number;
+  // Half-height of the tail's swing, as a fraction of girth
+  tailSpread: number;
+  // Swimming style: speed limit, tail beat rate and how tightly it schools,
+  // as multiples of the scene's
+  speed: number;
+  tailBeat: number;
+  schooling: number;
+}
+
+export interface SpeciesProfile extends SpeciesShape {
+  label: string;
+  // Each fish takes one; kept light, since the layer is screen-blended
+  colors: string[];
+}
+
+export type SpeciesTrait = keyof SpeciesShape;
+
+export const GENERIC_FISH: SpeciesShape = {
+  length: 1,
+  girth: 1,
+  bill: 0,
+  dorsal: 0,
+  tailSpread: 0.5,
+  speed: 1,
+  tailBeat: 1,
+  schooling: 1
+};
+
+export const SPECIES: Record<FishSpecies, SpeciesProfile> = {
+  // Torpedo body and a stiff, fast tail; packs in tight
+  tuna: {
+    label: 'Yellowfin Tuna',
+    length: 1.3,
+    girth: 1.4,
+    bill: 0,
+    dorsal: 0.6,
+    tailSpread: 0.7,
+    speed: 1.5,
+    tailBeat: 1.6,
+    schooling: 1.3,
+    colors: ['#5c9ded', '#8fb8f0', '#b3cdf5', '#f2c94c', '#d4af37']
+  },
+  // Long and slim with the sword and a tall sail; a loose, fast loner
+  swordfish: {
+    label: 'Swordfish',
+    length: 1.8,
+    girth: 0.8,
+    bill: 0.9,
+    dorsal: 1.4,
+    tailSpread: 0.8,
+    speed: 1.4,
+    tailBeat: 1.2,
+    schooling: 0.5,
+    colors: ['#9fb3c8', '#c0d0de', '#7a93ad', '#e0e8f0']
+  },
+  // Blunt head, dorsal running the back, green and gold
+  mahi: {
+    label: 'Mahi Mahi',
+    length: 1.4,
+    girth: 1.3,
+    bill: 0,
+    dorsal: 0.9,
+    tailSpread: 0.7,
+    speed: 1.3,
+    tailBeat: 1.4,
+    schooling: 1,
+    colors: ['#3ddc84', '#9be15d', '#f5d547', '#4fc3f7']
+  },
+  // Deep red body, steady cruising in loose groups
+  snapper: {
+    label: 'Red Snapper',
+    length: 1,
+    girth: 1.6,
+    bill: 0,
+    dorsal: 0.8,
+    tailSpread: 0.5,
+    speed: 0.9,
+    tailBeat: 1,
+    schooling: 1.1,
+    colors: ['#ff7f6e', '#ff9e80', '#ffb3a7', '#e57373']
+  },
+  // Heavy and mottled; hangs about slowly, mostly alone
+  grouper: {
+    label: 'Black Grouper',
+    length: 1.1,
+    girth: 1.9,
+    bill: 0,
+    dorsal: 0.6,
+    tailSpread: 0.35,
+    speed: 0.6,
+    tailBeat: 0.7,
+    schooling: 0.4,
+    colors: ['#a1887f', '#bcaaa4', '#8d9a6b', '#d7ccc8']
+  }
+};
+
+// The simulation stores a fish's species as a byte: 0 for the generic fish,
+// otherwise 1 + its index here
+export const SPECIES_IDS = Object.keys(SPECIES) as FishSpecies[];
+
+export const speciesCode = (species: FishSpecies | null) => (species ? SPECIES_IDS.indexOf(species) + 1 : 0);
+
+export const speciesFromCode = (code: number): FishSpecies | null => (code ? SPECIES_IDS[code - 1] : null);
+
+// Fish change species in a ripple: each fades back to the generic shape,
+// swaps, then grows into the new one, at its own pace
+export const SPECIES_MORPH = {
+  // Time for a fish at average pace to morph fully in or out
+  durationMs: 1400,
+  // Per-fish pace range, as multiples of average
+  minPace: 0.5,
+  maxPace: 1.5
+};
+
+// A trait for a fish `morph` of the way from generic to its species
+export const speciesTrait = (species: FishSpecies | null, morph: number, trait: SpeciesTrait) => {
+  const generic = GENERIC_FISH[trait];
+  return species ? generic + (SPECIES[species][trait] - generic) * morph : generic;
+};
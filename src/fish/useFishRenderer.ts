@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { getFishRenderer, subscribeFishRenderer } from './rendererChoice';
+
+// Requested fish renderer; re-renders the caller when it changes.
+export const useFishRenderer = () => useSyncExternalStore(subscribeFishRenderer, getFishRenderer);
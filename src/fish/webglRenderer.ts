@@ -0,0 +1,357 @@
+import { watchContextLoss } from '../render/contextLoss';
+import { FULLSCREEN_VERTEX_SHADER, ShaderProgram, createShaderProgram, deleteShaderProgram } from '../render/webgl';
+import { parseColor } from './color';
+import { DORSAL, FishShape, PREDATOR_SILHOUETTE, TRAIL_FADE, createFishShape, fishShape, predatorTailSpread } from './draw';
+import { FishCanvas, FishRenderer } from './renderer';
+import { FishArrays, Predator } from './simulation';
+
+// Draws the whole school in one instanced call. Each fish is a quad around
+// its body and tail; the fragment shader cuts out the same ellipse body,
+// swishing tail, fin, bill and eye that draw.ts paths, layered the way
+// Canvas2D would composite them. Predator silhouettes ride along as eyeless,
+// finless instances with an optional bill.
+
+// Per-vertex corner of the unit quad, shared by the fish and trail passes
+const QUAD_CORNERS = new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]);
+
+// Per-instance floats: x, y, heading, bodyLength | size, tailSpread, alpha | r, g, b | billLength, eye, dorsal
+const INSTANCE_FLOATS = 13;
+
+const FISH_VERTEX_SHADER = `
+  attribute vec2 a_corner;
+  attribute vec4 a_placement;
+  attribute vec3 a_shape;
+  attribute vec3 a_color;
+  attribute vec3 a_detail;
+
+  uniform vec2 u_resolution;
+
+  varying vec2 v_local;
+  varying vec3 v_shape;
+  varying vec4 v_color;
+  varying vec3 v_detail;
+
+  void main() {
+    float bodyLength = a_placement.w;
+    float size = a_shape.x;
+
+    // Bounds of body, tail, fin, bill and stroke in the fish's own frame, nose along +x
+    vec2 lo = vec2(-bodyLength * 0.8 - size * 2.0 - 2.0, min(-size, size * ${DORSAL.baseY.toFixed(2)} - a_detail.z) - 2.0);
+    vec2 hi = vec2(bodyLength + a_detail.x + 2.0, size + 2.0);
+    vec2 local = mix(lo, hi, a_corner * 0.5 + 0.5);
+
+    float c = cos(a_placement.z);
+    float s = sin(a_placement.z);
+    vec2 world = a_placement.xy + vec2(local.x * c - local.y * s, local.x * s + local.y * c);
+    vec2 clip = world / u_resolution * 2.0 - 1.0;
+    gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+
+    v_local = local;
+    v_shape = vec3(bodyLength, size, a_shape.y);
+    v_color = vec4(a_color, a_shape.z);
+    v_detail = a_detail;
+  }
+`;
+
+const FISH_FRAGMENT_SHADER = `
+  precision mediump float;
+
+  varying vec2 v_local;
+  varying vec3 v_shape;
+  varying vec4 v_color;
+  varying vec3 v_detail;
+
+  // Coverage from a signed distance in pixels, with a one-pixel soft edge
+  float cover(float d) {
+    return clamp(0.5 - d, 0.0, 1.0);
+  }
+
+  float ellipse(vec2 p, vec2 r) {
+    float k0 = length(p / r);
+    float k1 = length(p / (r * r));
+    return k1 > 0.0 ? k0 * (k0 - 1.0) / k1 : -min(r.x, r.y);
+  }
+
+  float triangle(vec2 p, vec2 p0, vec2 p1, vec2 p2) {
+    vec2 e0 = p1 - p0, e1 = p2 - p1, e2 = p0 - p2;
+    vec2 v0 = p - p0, v1 = p - p1, v2 = p - p2;
+    vec2 pq0 = v0 - e0 * clamp(dot(v0, e0) / (dot(e0, e0) + 1e-6), 0.0, 1.0);
+    vec2 pq1 = v1 - e1 * clamp(dot(v1, e1) / (dot(e1, e1) + 1e-6), 0.0, 1.0);
+    vec2 pq2 = v2 - e2 * clamp(dot(v2, e2) / (dot(e2, e2) + 1e-6), 0.0, 1.0);
+    float s = sign(e0.x * e2.y - e0.y * e2.x);
+    vec2 d = min(min(vec2(dot(pq0, pq0), s * (v0.x * e0.y - v0.y * e0.x)),
+                     vec2(dot(pq1, pq1), s * (v1.x * e1.y - v1.y * e1.x))),
+                     vec2(dot(pq2, pq2), s * (v2.x * e2.y - v2.y * e2.x)));
+    return -sqrt(d.x) * sign(d.y);
+  }
+
+  // Source-over in premultiplied alpha
+  vec4 over(vec4 below, vec3 color, float alpha) {
+    return vec4(color * alpha, alpha) + below * (1.0 - alpha);
+  }
+
+  void main() {
+    float bodyLength = v_shape.x;
+    float size = v_shape.y;
+    float tailY = v_shape.z;
+    float alpha = v_color.a;
+    vec2 p = v_local;
+    vec4 color = vec4(0.0);
+
+    // Body, grown by half the 1.5px outline
+    color = over(color, v_color.rgb, alpha * cover(ellipse(p, vec2(bodyLength, size)) - 0.75));
+
+    // Tail, a dart that flattens to nothing mid-swish like the Canvas2D path
+    float tailX = -bodyLength * 0.8;
+    vec2 tip = vec2(tailX, 0.0);
+    vec2 notch = vec2(tailX - size * 1.5, 0.0);
+    float tail = min(
+      triangle(p, tip, vec2(tailX - size * 2.0, tailY), notch),
+      triangle(p, tip, notch, vec2(tailX - size * 2.0, -tailY))
+    );
+    color = over(color, v_color.rgb, alpha * cover(tail) * step(0.01, abs(tailY)));
+
+    // Dorsal fin
+    float dorsal = v_detail.z;
+    float finY = size * ${DORSAL.baseY.toFixed(2)};
+    float fin = triangle(p, vec2(bodyLength * ${DORSAL.front.toFixed(2)}, finY), vec2(bodyLength * ${DORSAL.peakX.toFixed(2)}, finY - dorsal), vec2(bodyLength * ${DORSAL.back.toFixed(2)}, finY));
+    color = over(color, v_color.rgb, alpha * cover(fin) * step(0.01, dorsal));
+
+    // Bill
+    float billLength = v_detail.x;
+    float bill = triangle(p, vec2(bodyLength * 0.9, size * 0.15), vec2(bodyLength + billLength, 0.0), vec2(bodyLength * 0.9, -size * 0.15));
+    color = over(color, v_color.rgb, alpha * cover(bill) * step(0.01, billLength));
+
+    // Eye
+    float eye = alpha * v_detail.y;
+    color = over(color, vec3(1.0), eye * cover(length(p - vec2(bodyLength * 0.3, -size * 0.3)) - size * 0.3));
+    color = over(color, vec3(0.0), eye * cover(length(p - vec2(bodyLength * 0.4, -size * 0.3)) - size * 0.15));
+
+    gl_FragColor = color;
+  }
+`;
+
+const TRAIL_FRAGMENT_SHADER = `
+  precision mediump float;
+  uniform vec4 u_fade;
+  void main() {
+    gl_FragColor = vec4(u_fade.rgb * u_fade.a, u_fade.a);
+  }
+`;
+
+const writeInstance = (data: Float32Array, index: number, x: number, y: number, heading: number, shape: FishShape, eye: number) => {
+  const offset = index * INSTANCE_FLOATS;
+  data[offset] = x;
+  data[offset + 1] = y;
+  data[offset + 2] = heading;
+  data[offset + 3] = shape.bodyLength;
+  data[offset + 4] = shape.size;
+  data[offset + 5] = shape.tailY;
+  data[offset + 6] = shape.alpha;
+  data[offset + 7] = shape.color[0];
+  data[offset + 8] = shape.color[1];
+  data[offset + 9] = shape.color[2];
+  data[offset + 10] = shape.billLength;
+  data[offset + 11] = eye;
+  data[offset + 12] = shape.dorsal;
+};
+
+// A predator as an eyeless, finless fish in the silhouette colour
+const predatorShape = (predator: Predator): FishShape => ({
+  bodyLength: predator.bodyLength,
+  size: predator.size,
+  tailY: predatorTailSpread(predator),
+  billLength: predator.billLength,
+  dorsal: 0,
+  color: parseColor(PREDATOR_SILHOUETTE.color),
+  alpha: PREDATOR_SILHOUETTE.alpha
+});
+
+interface Resources {
+  gl: WebGLRenderingContext;
+  instancing: ANGLE_instanced_arrays;
+  fishProgram: ShaderProgram;
+  trailProgram: ShaderProgram;
+  cornerBuffer: WebGLBuffer | null;
+  instanceBuffer: WebGLBuffer | null;
+  locations: {
+    fishCorner: number;
+    placement: number;
+    shape: number;
+    color: number;
+    detail: number;
+    trailCorner: number;
+    resolution: WebGLUniformLocation | null;
+  };
+}
+
+const buildResources = (gl: WebGLRenderingContext): Resources | null => {
+  const instancing = gl.getExtension('ANGLE_instanced_arrays');
+  if (!instancing) return null;
+
+  const fishProgram = createShaderProgram(gl, {
+    label: 'fish-school',
+    vertex: FISH_VERTEX_SHADER,
+    fragment: FISH_FRAGMENT_SHADER
+  });
+  if (!fishProgram) return null;
+
+  const trailProgram = createShaderProgram(gl, {
+    label: 'fish-trail',
+    vertex: FULLSCREEN_VERTEX_SHADER,
+    fragment: TRAIL_FRAGMENT_SHADER
+  });
+  if (!trailProgram) {
+    deleteShaderProgram(gl, fishProgram);
+    return null;
+  }
+
+  gl.uniform4f(gl.getUniformLocation(trailProgram.program, 'u_fade'), TRAIL_FADE[0] / 255, TRAIL_FADE[1] / 255, TRAIL_FADE[2] / 255, TRAIL_FADE[3]);
+
+  const cornerBuffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, cornerBuffer);
+  gl.bufferData(gl.ARRAY_BUFFER, QUAD_CORNERS, gl.STATIC_DRAW);
+
+  // Everything is premultiplied, matching the canvas's own alpha
+  gl.enable(gl.BLEND);
+  gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+
+  return {
+    gl,
+    instancing,
+    fishProgram,
+    trailProgram,
+    cornerBuffer,
+    instanceBuffer: gl.createBuffer(),
+    locations: {
+      fishCorner: gl.getAttribLocation(fishProgram.program, 'a_corner'),
+      placement: gl.getAttribLocation(fishProgram.program, 'a_placement'),
+      shape: gl.getAttribLocation(fishProgram.program, 'a_shape'),
+      color: gl.getAttribLocation(fishProgram.program, 'a_color'),
+      detail: gl.getAttribLocation(fishProgram.program, 'a_detail'),
+      trailCorner: gl.getAttribLocation(trailProgram.program, 'a_position'),
+      resolution: gl.getUniformLocation(fishProgram.program, 'u_resolution')
+    }
+  };
+};
+
+const destroyResources = ({ gl, fishProgram, trailProgram, cornerBuffer, instanceBuffer }: Resources) => {
+  gl.bindBuffer(gl.ARRAY_BUFFER, null);
+  gl.deleteBuffer(cornerBuffer);
+  gl.deleteBuffer(instanceBuffer);
+  deleteShaderProgram(gl, fishProgram);
+  deleteShaderProgram(gl, trailProgram);
+};
+
+const createScratchCanvas = (): FishCanvas =>
+  typeof OffscreenCanvas !== 'undefined' ? new OffscreenCanvas(1, 1) : document.createElement('canvas');
+
+// Tried on a throwaway canvas, since a failed attempt on the real one would
+// leave it unable to fall back to Canvas2D. Builds everything the real
+// renderer will, so a driver that can't compile or link the shaders is
+// caught here too.
+const supportsInstancedWebGL = () => {
+  const gl = createScratchCanvas().getContext('webgl') as WebGLRenderingContext | null;
+  if (!gl) return false;
+  const resources = buildResources(gl);
+  if (resources) destroyResources(resources);
+  gl.getExtension('WEBGL_lose_context')?.loseContext();
+  return resources !== null;
+};
+
+// Null when WebGL or instancing is unavailable; the caller falls back to Canvas2D
+export const createWebGLFishRenderer = (canvas: FishCanvas): FishRenderer | null => {
+  if (!supportsInstancedWebGL()) return null;
+
+  // The trail fade needs last frame's pixels, so keep the drawing buffer
+  const gl = canvas.getContext('webgl', {
+    alpha: true,
+    premultipliedAlpha: true,
+    antialias: false,
+    preserveDrawingBuffer: true
+  }) as WebGLRenderingContext | null;
+  if (!gl) return null;
+
+  let resources = buildResources(gl);
+  if (!resources) return null;
+
+  let instanceData = new Float32Array(0);
+  const shape = createFishShape();
+
+  const unwatchContext = watchContextLoss(canvas, {
+    onLost: () => {
+      resources = null;
+    },
+    onRestored: () => {
+      resources = buildResources(gl);
+    }
+  });
+
+  const draw = (fish: FishArrays, predators: Predator[], width: number, height: number) => {
+    if (!resources) return;
+    const { instancing, fishProgram, trailProgram, cornerBuffer, instanceBuffer, locations } = resources;
+
+    gl.viewport(0, 0, width, height);
+
+    // Fade the previous frame
+    gl.useProgram(trailProgram.program);
+    gl.bindBuffer(gl.ARRAY_BUFFER, cornerBuffer);
+    gl.enableVertexAttribArray(locations.trailCorner);
+    gl.vertexAttribPointer(locations.trailCorner, 2, gl.FLOAT, false, 0, 0);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+
+    const instances = fish.count + predators.length;
+    if (instances === 0) return;
+
+    if (instanceData.length < instances * INSTANCE_FLOATS) {
+      instanceData = new Float32Array(instances * INSTANCE_FLOATS * 2);
+    }
+    for (let i = 0; i < fish.count; i++) {
+      writeInstance(instanceData, i, fish.x[i], fish.y[i], fish.rotationAngle[i], fishShape(fish, i, shape), 1);
+    }
+    predators.forEach((p, i) => {
+      writeInstance(instanceData, fish.count + i, p.x, p.y, p.rotationAngle, predatorShape(p), 0);
+    });
+
+    gl.useProgram(fishProgram.program);
+    gl.uniform2f(locations.resolution, width, height);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, cornerBuffer);
+    gl.enableVertexAttribArray(locations.fishCorner);
+    gl.vertexAttribPointer(locations.fishCorner, 2, gl.FLOAT, false, 0, 0);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, instanceBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, instanceData.subarray(0, instances * INSTANCE_FLOATS), gl.DYNAMIC_DRAW);
+
+    const stride = INSTANCE_FLOATS * 4;
+    const instanced = [
+      { location: locations.placement, size: 4, offset: 0 },
+      { location: locations.shape, size: 3, offset: 4 },
+      { location: locations.color, size: 3, offset: 7 },
+      { location: locations.detail, size: 3, offset: 10 }
+    ];
+    for (const { location, size, offset } of instanced) {
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride, offset * 4);
+      instancing.vertexAttribDivisorANGLE(location, 1);
+    }
+
+    instancing.drawArraysInstancedANGLE(gl.TRIANGLE_STRIP, 0, 4, instances);
+
+    // Leave the instanced attributes off so the trail pass only sees its quad
+    for (const { location } of instanced) {
+      instancing.vertexAttribDivisorANGLE(location, 0);
+      gl.disableVertexAttribArray(location);
+    }
+  };
+
+  return {
+    kind: 'webgl',
+    draw,
+    dispose: () => {
+      unwatchContext();
+      if (resources) destroyResources(resources);
+      resources = null;
+    }
+  };
+};
@@ -0,0 +1,125 @@
+import { ScrollTrigger } from 'gsap/ScrollTrigger';
+import { LAYER_PRIORITY, registerLayer } from '../render/frameScheduler';
+import { FishSpecies } from '../types';
+
+// Scroll, pointer and card-interaction state shared with the visual layers.
+//
+// This changes dozens of times a second, so it lives outside React: canvas
+// layers read getInput() from their frame callbacks, and the few components
+// that need a reactive value use useInput() with a narrow selector.
+
+export interface InputState {
+  // 0 at the top of the page, 1 at the bottom
+  scrollProgress: number;
+  // Smoothed change in scrollProgress per second; negative scrolling up
+  scrollVelocity: number;
+  // Index into SECTIONS of the section on screen
+  section: number;
+  // Viewport pixels
+  pointer: { x: number; y: number };
+  // False until the pointer first moves, and again once it leaves the window
+  pointerInside: boolean;
+  // Latest click anywhere on the page; id counts up so repeats register
+  lastClick: { x: number; y: number; id: number } | null;
+  // Pointer is over a story card
+  hovering: boolean;
+  // Briefly true after a story card is clicked
+  clicked: boolean;
+  // Species of the product, or else the card, open in the overlay
+  openSpecies: FishSpecies | null;
+}
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+let state: InputState = {
+  scrollProgress: 0,
+  scrollVelocity: 0,
+  section: 0,
+  pointer: { x: 0, y: 0 },
+  pointerInside: false,
+  lastClick: null,
+  hovering: false,
+  clicked: false,
+  openSpecies: null
+};
+
+export const getInput = () => state;
+
+export const subscribeInput = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Replaces the snapshot, so useSyncExternalStore sees the change. A patch
+// that changes nothing (e.g. a scroll update at the same progress) is dropped
+// without waking subscribers.
+export const setInput = (patch: Partial<InputState>) => {
+  const keys = Object.keys(patch) as (keyof InputState)[];
+  if (keys.every(key => Object.is(state[key], patch[key]))) return;
+  state = { ...state, ...patch };
+  listeners.forEach(listener => listener());
+};
+
+const CLICK_FLOURISH_MS = 300;
+let clickTimer: ReturnType<typeof setTimeout> | undefined;
+
+// Marks a card click for the layers' brief click flourish
+export const pulseClick = () => {
+  clearTimeout(clickTimer);
+  setInput({ clicked: true });
+  clickTimer = setTimeout(() => setInput({ clicked: false }), CLICK_FLOURISH_MS);
+};
+
+const VELOCITY_SMOOTHING = 0.1;
+
+let stopTracking: (() => void) | null = null;
+
+// Starts following the page scroll and the pointer. Safe to call twice.
+export const startInputTracking = () => {
+  if (stopTracking) return stopTracking;
+
+  const scrollTrigger = ScrollTrigger.create({
+    trigger: document.body,
+    start: 'top top',
+    end: 'bottom bottom',
+    onUpdate: self => setInput({ scrollProgress: self.progress })
+  });
+
+  const handlePointerMove = (e: PointerEvent) => {
+    setInput({ pointer: { x: e.clientX, y: e.clientY }, pointerInside: true });
+  };
+  const handlePointerLeave = () => setInput({ pointerInside: false });
+  // Capture phase, so clicks that components stop still count
+  const handleClick = (e: MouseEvent) => {
+    setInput({ lastClick: { x: e.clientX, y: e.clientY, id: (state.lastClick?.id ?? 0) + 1 } });
+  };
+  window.addEventListener('pointermove', handlePointerMove);
+  document.documentElement.addEventListener('pointerleave', handlePointerLeave);
+  window.addEventListener('click', handleClick, true);
+
+  // Velocity is sampled per frame so it decays once scrolling stops
+  let lastProgress = state.scrollProgress;
+  const unregister = registerLayer('input', ({ delta }) => {
+    if (delta === 0) return;
+    const velocity = (state.scrollProgress - lastProgress) / (delta / 1000);
+    lastProgress = state.scrollProgress;
+
+    const smoothed = state.scrollVelocity + (velocity - state.scrollVelocity) * VELOCITY_SMOOTHING;
+    // Don't wake subscribers for a velocity that has settled at rest
+    if (Math.abs(smoothed) < 1e-4 && state.scrollVelocity === 0) return;
+    setInput({ scrollVelocity: Math.abs(smoothed) < 1e-4 ? 0 : smoothed });
+  }, { priority: LAYER_PRIORITY.critical });
+
+  stopTracking = () => {
+    scrollTrigger.kill();
+    window.removeEventListener('pointermove', handlePointerMove);
+    document.documentElement.removeEventListener('pointerleave', handlePointerLeave);
+    window.removeEventListener('click', handleClick, true);
+    unregister();
+    stopTracking = null;
+  };
+  return stopTracking;
+};
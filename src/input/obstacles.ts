@@ -0,0 +1,37 @@
+// Page elements the background layers treat as solid, e.g. the fish school
+// flowing around the story cards and the content overlay.
+//
+// Elements register themselves and the layers read their viewport rects each
+// frame, so scrolling and GSAP-driven resizes are picked up as they happen.
+
+export interface ObstacleRect {
+  // Viewport pixels
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+const elements = new Set<Element>();
+
+// Returns a function that removes the element again
+export const registerObstacle = (element: Element) => {
+  elements.add(element);
+  return () => {
+    elements.delete(element);
+  };
+};
+
+// Rects of the registered elements that reach into the viewport, grown by
+// `margin` on every side for the visibility test
+export const getObstacleRects = (margin = 0): ObstacleRect[] => {
+  const rects: ObstacleRect[] = [];
+  elements.forEach(element => {
+    const { left, top, right, bottom } = element.getBoundingClientRect();
+    if (right - left <= 0 || bottom - top <= 0) return;
+    if (bottom < -margin || top > window.innerHeight + margin) return;
+    if (right < -margin || left > window.innerWidth + margin) return;
+    rects.push({ left, top, right, bottom });
+  });
+  return rects;
+};
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { InputState, getInput, subscribeInput } from './inputStore';
+
+// Reactive slice of the input store. The selector should return a primitive
+// or a value kept from the state (e.g. `s => s.hovering`), so the caller only
+// re-renders when that slice changes.
+export const useInput = <T>(selector: (state: InputState) => T) =>
+  useSyncExternalStore(subscribeInput, () => selector(getInput()));
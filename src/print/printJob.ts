@@ -0,0 +1,33 @@
+// Print job store shared by the "spec sheet" buttons and <PrintRoot />.
+// Browsers name the saved PDF after document.title, so each job carries one.
+
+export interface PrintJob {
+  title: string;
+  // null prints the whole catalog
+  productIds: string[] | null;
+}
+
+type Listener = (job: PrintJob | null) => void;
+
+let currentJob: PrintJob | null = null;
+const listeners = new Set<Listener>();
+
+export const getPrintJob = () => currentJob;
+
+export const subscribePrintJob = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const setJob = (job: PrintJob | null) => {
+  currentJob = job;
+  listeners.forEach(listener => listener(job));
+};
+
+export const specSheetTitle = (productName: string) => `BTF Spec Sheet - ${productName}`;
+
+export const printSpecSheets = (job: PrintJob) => setJob(job);
+
+export const clearPrintJob = () => setJob(null);
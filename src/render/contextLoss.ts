@@ -0,0 +1,56 @@
+// WebGL context loss / restore plumbing shared by the shader backgrounds.
+//
+// On loss every GL object is gone; the layer drops its handles and shows
+// its static fallback. On restore it rebuilds programs, buffers and uniform
+// locations from scratch. The canvas stays mounted throughout, since the
+// restored context belongs to it.
+//
+// In tests or the console, loseWebGLContext(canvas) / restoreWebGLContext(canvas)
+// drive the same path through the WEBGL_lose_context extension.
+
+export interface ContextLossHandlers {
+  onLost: () => void;
+  onRestored: () => void;
+}
+
+// Returns a function that removes the listeners. An OffscreenCanvas fires the
+// same events, so worker-side renderers can recover too.
+export const watchContextLoss = (canvas: HTMLCanvasElement | OffscreenCanvas, { onLost, onRestored }: ContextLossHandlers) => {
+  const handleLost = (e: Event) => {
+    // Without preventDefault the browser never fires webglcontextrestored
+    e.preventDefault();
+    onLost();
+  };
+
+  canvas.addEventListener('webglcontextlost', handleLost);
+  canvas.addEventListener('webglcontextrestored', onRestored);
+  return () => {
+    canvas.removeEventListener('webglcontextlost', handleLost);
+    canvas.removeEventListener('webglcontextrestored', onRestored);
+  };
+};
+
+// getContext returns the canvas's existing context, so this reaches the
+// same one the layer renders with. The extension is cached because a lost
+// context no longer hands out extensions, and restoring needs the same object.
+const extensions = new WeakMap<HTMLCanvasElement, WEBGL_lose_context>();
+
+const loseContextExtension = (canvas: HTMLCanvasElement) => {
+  const cached = extensions.get(canvas);
+  if (cached) return cached;
+  const extension = canvas.getContext('webgl')?.getExtension('WEBGL_lose_context') ?? null;
+  if (extension) extensions.set(canvas, extension);
+  return extension;
+};
+
+export const loseWebGLContext = (canvas: HTMLCanvasElement) => {
+  const extension = loseContextExtension(canvas);
+  extension?.loseContext();
+  return Boolean(extension);
+};
+
+export const restoreWebGLContext = (canvas: HTMLCanvasElement) => {
+  const extension = loseContextExtension(canvas);
+  extension?.restoreContext();
+  return Boolean(extension);
+};
@@ -0,0 +1,224 @@
+// One requestAnimationFrame loop shared by every canvas / WebGL layer.
+//
+// Layers register a callback with a priority. Each frame the scheduler runs
+// them highest priority first on a common clock that stops while paused.
+// When a frame runs over budget the remaining non-critical layers are
+// skipped, and while frames stay expensive low-priority layers drop to half
+// rate. A skipped layer's delta keeps accumulating, so it catches up in a
+// single step when it next runs.
+
+export const LAYER_PRIORITY = {
+  low: 0,
+  normal: 1,
+  high: 2,
+  // Never skipped or throttled
+  critical: 3
+} as const;
+
+export interface FrameInfo {
+  // Scheduler clock in ms; does not advance while paused
+  time: number;
+  // ms since this layer last ran, capped at MAX_DELTA_MS
+  delta: number;
+  frame: number;
+}
+
+export type FrameCallback = (frame: FrameInfo) => void;
+
+export interface LayerOptions {
+  priority?: number;
+}
+
+export interface LayerStats {
+  name: string;
+  priority: number;
+  skipped: number;
+  // Average ms spent in the callback
+  cost: number;
+}
+
+export interface FrameStats {
+  // Smoothed ms spent running layers per frame
+  frameCost: number;
+  // Smoothed ms between frames
+  frameInterval: number;
+  budget: number;
+  paused: boolean;
+  layers: LayerStats[];
+}
+
+interface Layer {
+  name: string;
+  priority: number;
+  callback: FrameCallback;
+  lastRun: number;
+  // Consecutive frames skipped
+  starved: number;
+  skipped: number;
+  cost: number;
+  // Consecutive frames the callback threw, and the frame it may next run
+  failures: number;
+  retryFrame: number;
+}
+
+const MAX_DELTA_MS = 100;
+// A layer skipped this many frames in a row runs regardless of budget
+const MAX_STARVED_FRAMES = 8;
+const SMOOTHING = 0.1;
+// A throwing layer waits 2, 4, 8... frames before trying again, and is
+// dropped after this many failures in a row
+const MAX_LAYER_FAILURES = 5;
+
+const layers: Layer[] = [];
+let budgetMs = 12;
+let frameId: number | null = null;
+let frameCount = 0;
+let clock = 0;
+let lastTimestamp: number | null = null;
+let frameCost = 0;
+let frameInterval = 1000 / 60;
+let userPaused = false;
+let hiddenPaused = false;
+
+const isPaused = () => userPaused || hiddenPaused;
+
+const tick = (timestamp: number) => {
+  frameId = null;
+  if (isPaused() || layers.length === 0) return;
+
+  if (lastTimestamp !== null) {
+    const elapsed = timestamp - lastTimestamp;
+    clock += Math.min(elapsed, MAX_DELTA_MS);
+    frameInterval += (elapsed - frameInterval) * SMOOTHING;
+  }
+  lastTimestamp = timestamp;
+  frameCount += 1;
+
+  const overBudget = frameCost > budgetMs;
+  const start = performance.now();
+
+  try {
+    runLayers(overBudget, start);
+  } finally {
+    // Whatever a layer did, the loop keeps going for the others
+    frameCost += (performance.now() - start - frameCost) * SMOOTHING;
+    schedule();
+  }
+};
+
+// One layer throwing mustn't stop the rest. The first error is reported, then
+// the layer backs off and is dropped if it keeps failing.
+const runLayer = (layer: Layer) => {
+  try {
+    layer.callback({ time: clock, delta: Math.min(clock - layer.lastRun, MAX_DELTA_MS), frame: frameCount });
+    layer.failures = 0;
+  } catch (error) {
+    if (layer.failures === 0) console.error(`Frame layer "${layer.name}" threw:`, error);
+    layer.failures += 1;
+    layer.retryFrame = frameCount + 2 ** layer.failures;
+    if (layer.failures >= MAX_LAYER_FAILURES) {
+      console.error(`Frame layer "${layer.name}" kept failing and was removed`);
+      const index = layers.indexOf(layer);
+      if (index !== -1) layers.splice(index, 1);
+    }
+  }
+};
+
+const runLayers = (overBudget: boolean, start: number) => {
+  // Copy: callbacks may unregister layers mid-frame
+  for (const layer of [...layers]) {
+    if (!layers.includes(layer)) continue;
+    if (frameCount < layer.retryFrame) continue;
+
+    const isCritical = layer.priority >= LAYER_PRIORITY.critical;
+    const mustRun = isCritical || layer.starved >= MAX_STARVED_FRAMES;
+    const throttled = overBudget && layer.priority <= LAYER_PRIORITY.low && frameCount % 2 === 1;
+    const outOfTime = performance.now() - start > budgetMs;
+
+    if (!mustRun && (throttled || outOfTime)) {
+      layer.starved += 1;
+      layer.skipped += 1;
+      continue;
+    }
+
+    const layerStart = performance.now();
+    runLayer(layer);
+    layer.cost += (performance.now() - layerStart - layer.cost) * SMOOTHING;
+    layer.lastRun = clock;
+    layer.starved = 0;
+  }
+};
+
+const schedule = () => {
+  if (frameId === null && !isPaused() && layers.length > 0) {
+    frameId = requestAnimationFrame(tick);
+  }
+};
+
+const stop = () => {
+  if (frameId !== null) cancelAnimationFrame(frameId);
+  frameId = null;
+  // Resume without counting the paused gap as a frame delta
+  lastTimestamp = null;
+};
+
+// Returns an unregister function. Re-registering under the same name
+// replaces the previous callback.
+export const registerLayer = (name: string, callback: FrameCallback, options: LayerOptions = {}) => {
+  const existing = layers.findIndex(layer => layer.name === name);
+  if (existing !== -1) layers.splice(existing, 1);
+
+  const layer: Layer = {
+    name,
+    priority: options.priority ?? LAYER_PRIORITY.normal,
+    callback,
+    lastRun: clock,
+    starved: 0,
+    skipped: 0,
+    cost: 0,
+    failures: 0,
+    retryFrame: 0
+  };
+  layers.push(layer);
+  layers.sort((a, b) => b.priority - a.priority);
+  schedule();
+
+  return () => {
+    const index = layers.indexOf(layer);
+    if (index !== -1) layers.splice(index, 1);
+    if (layers.length === 0) stop();
+  };
+};
+
+export const pauseScheduler = () => {
+  userPaused = true;
+  stop();
+};
+
+export const resumeScheduler = () => {
+  userPaused = false;
+  schedule();
+};
+
+export const isSchedulerPaused = isPaused;
+
+export const setFrameBudget = (ms: number) => {
+  budgetMs = ms;
+};
+
+export const getFrameStats = (): FrameStats => ({
+  frameCost,
+  frameInterval,
+  budget: budgetMs,
+  paused: isPaused(),
+  layers: layers.map(({ name, priority, skipped, cost }) => ({ name, priority, skipped, cost }))
+});
+
+// Background tabs stop the clock instead of jumping it forward on return
+if (typeof document !== 'undefined') {
+  document.addEventListener('visibilitychange', () => {
+    hiddenPaused = document.hidden;
+    if (hiddenPaused) stop();
+    else schedule();
+  });
+}
@@ -0,0 +1,162 @@
+import { LAYER_PRIORITY, getFrameStats, registerLayer } from './frameScheduler';
+
+// Steps rendering quality up or down from measured frame times.
+//
+// Frame intervals are averaged over a sample window. A slow window drops a
+// tier straight away; climbing back needs several fast windows in a row and
+// a cooldown since the last change, so the tier doesn't flap.
+//
+// Pin a tier for testing with ?quality=low|medium|high|ultra or
+// pinQualityTier('low'); pinQualityTier(null) hands control back.
+
+export type QualityTier = 'low' | 'medium' | 'high' | 'ultra';
+
+export interface QualitySettings {
+  // Backing-store pixels per CSS pixel for the shader and fluid canvases
+  pixelRatio: number;
+  // Sized from `npm run bench:fish`: 5,000 fish step in about 13ms (p95) on
+  // a slow 2GHz virtual core and a few ms on a desktop one, inside a 60fps
+  // frame. High carries the full school, since ultra only adds pixel ratio.
+  // Canvas2D caps it lower (see CANVAS2D_MAX_FISH).
+  fishCount: number;
+  fluidGrid: { width: number; height: number };
+  solverIterations: number;
+  raymarchSteps: number;
+  // Multiplier on compass shadowBlur; 0 disables the glow
+  compassGlow: number;
+}
+
+export const QUALITY_TIERS: QualityTier[] = ['low', 'medium', 'high', 'ultra'];
+
+export const QUALITY_SETTINGS: Record<QualityTier, QualitySettings> = {
+  low: {
+    pixelRatio: 0.5,
+    fishCount: 250,
+    fluidGrid: { width: 48, height: 27 },
+    solverIterations: 2,
+    raymarchSteps: 24,
+    compassGlow: 0
+  },
+  medium: {
+    pixelRatio: 0.75,
+    fishCount: 1500,
+    fluidGrid: { width: 64, height: 36 },
+    solverIterations: 3,
+    raymarchSteps: 40,
+    compassGlow: 0.5
+  },
+  high: {
+    pixelRatio: 1,
+    fishCount: 5000,
+    fluidGrid: { width: 96, height: 54 },
+    solverIterations: 4,
+    raymarchSteps: 64,
+    compassGlow: 1
+  },
+  ultra: {
+    pixelRatio: Math.min(typeof window !== 'undefined' ? window.devicePixelRatio : 1, 2),
+    fishCount: 5000,
+    fluidGrid: { width: 128, height: 72 },
+    solverIterations: 4,
+    raymarchSteps: 64,
+    compassGlow: 1
+  }
+};
+
+const SAMPLE_WINDOW = 90;
+// Average frame interval (ms) above which a window counts as slow
+const DOWNGRADE_INTERVAL_MS = 1000 / 45;
+// ...and below which it counts as fast, provided layers also left headroom
+const UPGRADE_INTERVAL_MS = 1000 / 57;
+const UPGRADE_WINDOWS = 4;
+const COOLDOWN_MS = 4000;
+
+type Listener = (tier: QualityTier) => void;
+
+const listeners = new Set<Listener>();
+let autoTier: QualityTier = 'high';
+let pinnedTier: QualityTier | null = null;
+let samples: number[] = [];
+let fastWindows = 0;
+let lastChange = 0;
+
+const isTier = (value: unknown): value is QualityTier => QUALITY_TIERS.includes(value as QualityTier);
+
+export const getQualityTier = (): QualityTier => pinnedTier ?? autoTier;
+
+export const getQualitySettings = () => QUALITY_SETTINGS[getQualityTier()];
+
+export const getPinnedQualityTier = () => pinnedTier;
+
+export const subscribeQuality = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = () => {
+  const tier = getQualityTier();
+  listeners.forEach(listener => listener(tier));
+};
+
+export const pinQualityTier = (tier: QualityTier | null) => {
+  if (tier === pinnedTier) return;
+  pinnedTier = tier;
+  samples = [];
+  fastWindows = 0;
+  notify();
+};
+
+const stepTier = (direction: 1 | -1, now: number) => {
+  const index = QUALITY_TIERS.indexOf(autoTier) + direction;
+  if (index < 0 || index >= QUALITY_TIERS.length) return;
+  // Ultra only helps on high-density screens
+  if (QUALITY_TIERS[index] === 'ultra' && QUALITY_SETTINGS.ultra.pixelRatio <= 1) return;
+
+  autoTier = QUALITY_TIERS[index];
+  lastChange = now;
+  fastWindows = 0;
+  notify();
+};
+
+const evaluateWindow = (now: number) => {
+  const average = samples.reduce((sum, interval) => sum + interval, 0) / samples.length;
+  samples = [];
+  if (now - lastChange < COOLDOWN_MS) return;
+
+  if (average > DOWNGRADE_INTERVAL_MS) {
+    stepTier(-1, now);
+    return;
+  }
+
+  const { frameCost, budget } = getFrameStats();
+  if (average < UPGRADE_INTERVAL_MS && frameCost < budget * 0.5) {
+    fastWindows += 1;
+    if (fastWindows >= UPGRADE_WINDOWS) stepTier(1, now);
+  } else {
+    fastWindows = 0;
+  }
+};
+
+let stopGovernor: (() => void) | null = null;
+
+// Samples frame intervals as a critical scheduler layer. Safe to call twice.
+export const startQualityGovernor = () => {
+  if (stopGovernor) return stopGovernor;
+
+  const param = new URLSearchParams(window.location.search).get('quality');
+  if (isTier(param)) pinnedTier = param;
+
+  const unregister = registerLayer('quality-governor', ({ time, delta }) => {
+    if (pinnedTier || delta === 0) return;
+    samples.push(delta);
+    if (samples.length >= SAMPLE_WINDOW) evaluateWindow(time);
+  }, { priority: LAYER_PRIORITY.critical });
+
+  stopGovernor = () => {
+    unregister();
+    stopGovernor = null;
+  };
+  return stopGovernor;
+};
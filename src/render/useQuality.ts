@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { QUALITY_SETTINGS, getQualityTier, subscribeQuality } from './qualityGovernor';
+
+// Current quality settings; re-renders the caller when the tier changes.
+export const useQuality = () => {
+  const tier = useSyncExternalStore(subscribeQuality, getQualityTier);
+  return { tier, settings: QUALITY_SETTINGS[tier] };
+};
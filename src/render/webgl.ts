@@ -0,0 +1,213 @@
+// Shared WebGL plumbing for the shader backgrounds: program compile/link
+// with readable error reports, a typed uniform binder and a fullscreen quad.
+
+// Vertex stage for shaders that paint the whole screen from a_position
+export const FULLSCREEN_VERTEX_SHADER = `
+  attribute vec2 a_position;
+  void main() {
+    gl_Position = vec4(a_position, 0.0, 1.0);
+  }
+`;
+
+export interface ShaderProgram {
+  program: WebGLProgram;
+  vertexShader: WebGLShader;
+  fragmentShader: WebGLShader;
+}
+
+export interface ProgramSources {
+  // Prefixes error reports, e.g. "cartography"
+  label: string;
+  vertex: string;
+  fragment: string;
+}
+
+// Lines of source shown either side of each line a compiler error points at
+const ERROR_CONTEXT_LINES = 2;
+
+// Drivers report errors as "ERROR: 0:42: 'foo' : undeclared identifier".
+// Pair each one with the offending source line so the console shows what
+// broke, not just a line number.
+export const formatShaderErrors = (source: string, log: string) => {
+  const lines = source.split('\n');
+  const width = String(lines.length).length;
+
+  return log
+    .split('\n')
+    .filter(entry => entry.trim())
+    .map(entry => {
+      const match = entry.match(/^\s*(?:ERROR|WARNING):\s*\d+:(\d+):/);
+      if (!match) return entry;
+
+      const errorLine = Number(match[1]);
+      const first = Math.max(1, errorLine - ERROR_CONTEXT_LINES);
+      const last = Math.min(lines.length, errorLine + ERROR_CONTEXT_LINES);
+      const excerpt = [];
+      for (let n = first; n <= last; n++) {
+        const marker = n === errorLine ? '>' : ' ';
+        excerpt.push(`${marker} ${String(n).padStart(width)} | ${lines[n - 1]}`);
+      }
+      return [entry, ...excerpt].join('\n');
+    })
+    .join('\n\n');
+};
+
+const compileShader = (gl: WebGLRenderingContext, type: number, source: string, label: string) => {
+  const shader = gl.createShader(type);
+  if (!shader) return null;
+
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const stage = type === gl.VERTEX_SHADER ? 'vertex' : 'fragment';
+    console.error(
+      `[${label}] ${stage} shader compile error:\n` +
+      formatShaderErrors(source, gl.getShaderInfoLog(shader) ?? '')
+    );
+    gl.deleteShader(shader);
+    return null;
+  }
+
+  return shader;
+};
+
+// Compiles and links both stages and makes the program current. Logs and
+// returns null on failure, leaving nothing allocated.
+export const createShaderProgram = (gl: WebGLRenderingContext, { label, vertex, fragment }: ProgramSources): ShaderProgram | null => {
+  const vertexShader = compileShader(gl, gl.VERTEX_SHADER, vertex, label);
+  if (!vertexShader) return null;
+
+  const fragmentShader = compileShader(gl, gl.FRAGMENT_SHADER, fragment, label);
+  if (!fragmentShader) {
+    gl.deleteShader(vertexShader);
+    return null;
+  }
+
+  const program = gl.createProgram();
+  if (!program) {
+    gl.deleteShader(vertexShader);
+    gl.deleteShader(fragmentShader);
+    return null;
+  }
+
+  gl.attachShader(program, vertexShader);
+  gl.attachShader(program, fragmentShader);
+  gl.linkProgram(program);
+
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    console.error(`[${label}] shader program link error:\n${gl.getProgramInfoLog(program)}`);
+    gl.deleteProgram(program);
+    gl.deleteShader(vertexShader);
+    gl.deleteShader(fragmentShader);
+    return null;
+  }
+
+  gl.useProgram(program);
+  return { program, vertexShader, fragmentShader };
+};
+
+export const deleteShaderProgram = (gl: WebGLRenderingContext, { program, vertexShader, fragmentShader }: ShaderProgram) => {
+  gl.useProgram(null);
+  gl.detachShader(program, vertexShader);
+  gl.detachShader(program, fragmentShader);
+  gl.deleteShader(vertexShader);
+  gl.deleteShader(fragmentShader);
+  gl.deleteProgram(program);
+};
+
+interface UniformValues {
+  float: number;
+  int: number;
+  vec2: readonly [number, number];
+  vec3: readonly [number, number, number];
+  vec4: readonly [number, number, number, number];
+}
+
+export type UniformType = keyof UniformValues;
+
+// A constant is uploaded once when bound; a function is read every frame
+export type UniformSource<T extends UniformType> = UniformValues[T] | (() => UniformValues[T]);
+
+export type UniformDeclaration = {
+  [T in UniformType]: { type: T; source: UniformSource<T> };
+}[UniformType];
+
+// Keyed by the GLSL uniform name
+export type UniformDeclarations = Record<string, UniformDeclaration>;
+
+export interface UniformBinder {
+  // Uploads every per-frame source; the program must be current
+  upload: () => void;
+}
+
+const setUniform = (gl: WebGLRenderingContext, location: WebGLUniformLocation, declaration: UniformDeclaration) => {
+  const value = typeof declaration.source === 'function' ? declaration.source() : declaration.source;
+
+  switch (declaration.type) {
+    case 'float':
+      gl.uniform1f(location, value as number);
+      break;
+    case 'int':
+      gl.uniform1i(location, value as number);
+      break;
+    case 'vec2':
+      gl.uniform2fv(location, value as UniformValues['vec2']);
+      break;
+    case 'vec3':
+      gl.uniform3fv(location, value as UniformValues['vec3']);
+      break;
+    case 'vec4':
+      gl.uniform4fv(location, value as UniformValues['vec4']);
+      break;
+  }
+};
+
+// Looks up every declared uniform, uploads the constants straight away and
+// returns an uploader for the rest. Uniforms the compiler optimised out have
+// no location and are skipped.
+export const bindUniforms = (gl: WebGLRenderingContext, program: WebGLProgram, declarations: UniformDeclarations): UniformBinder => {
+  const dynamic: { location: WebGLUniformLocation; declaration: UniformDeclaration }[] = [];
+
+  gl.useProgram(program);
+  for (const [name, declaration] of Object.entries(declarations)) {
+    const location = gl.getUniformLocation(program, name);
+    if (!location) continue;
+
+    if (typeof declaration.source === 'function') {
+      dynamic.push({ location, declaration });
+    } else {
+      setUniform(gl, location, declaration);
+    }
+  }
+
+  return {
+    upload: () => {
+      for (const { location, declaration } of dynamic) setUniform(gl, location, declaration);
+    }
+  };
+};
+
+export interface FullscreenQuad {
+  draw: () => void;
+  dispose: () => void;
+}
+
+// Two triangles covering clip space, fed to the program's position attribute
+export const createFullscreenQuad = (gl: WebGLRenderingContext, program: WebGLProgram, attribute = 'a_position'): FullscreenQuad => {
+  const buffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+
+  const location = gl.getAttribLocation(program, attribute);
+  gl.enableVertexAttribArray(location);
+  gl.vertexAttribPointer(location, 2, gl.FLOAT, false, 0, 0);
+
+  return {
+    draw: () => gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4),
+    dispose: () => {
+      gl.bindBuffer(gl.ARRAY_BUFFER, null);
+      gl.deleteBuffer(buffer);
+    }
+  };
+};
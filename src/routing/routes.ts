@@ -0,0 +1,70 @@
+import { StoryCard, ProductItem } from '../types';
+
+// URL scheme for deep links into the overlay:
+//   /card/:cardId               opens a story card
+//   /catalog/:productId         opens the catalog card focused on one product
+//   /catalog/:productId/sheet   printable spec sheet for one product
+
+export type Route =
+  | { name: 'home' }
+  | { name: 'card'; cardId: string }
+  | { name: 'product'; productId: string }
+  | { name: 'sheet'; productId: string };
+
+export const HOME_ROUTE: Route = { name: 'home' };
+
+export const parseRoute = (pathname: string): Route => {
+  let segments: string[];
+  try {
+    segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    // Malformed escapes such as /card/%E0
+    return HOME_ROUTE;
+  }
+
+  if (segments.length === 2 && segments[0] === 'card') {
+    return { name: 'card', cardId: segments[1] };
+  }
+  if (segments.length === 2 && segments[0] === 'catalog') {
+    return { name: 'product', productId: segments[1] };
+  }
+  if (segments.length === 3 && segments[0] === 'catalog' && segments[2] === 'sheet') {
+    return { name: 'sheet', productId: segments[1] };
+  }
+  return HOME_ROUTE;
+};
+
+export const formatRoute = (route: Route): string => {
+  switch (route.name) {
+    case 'card':
+      return `/card/${encodeURIComponent(route.cardId)}`;
+    case 'product':
+      return `/catalog/${encodeURIComponent(route.productId)}`;
+    case 'sheet':
+      return `/catalog/${encodeURIComponent(route.productId)}/sheet`;
+    default:
+      return '/';
+  }
+};
+
+export interface ResolvedRoute {
+  card: StoryCard;
+  product?: ProductItem;
+}
+
+// Map a route onto the loaded content. Unknown ids resolve to null.
+export const resolveRoute = (route: Route, cards: StoryCard[]): ResolvedRoute | null => {
+  if (route.name === 'card') {
+    const card = cards.find(c => c.id === route.cardId);
+    return card ? { card } : null;
+  }
+
+  if (route.name === 'product' || route.name === 'sheet') {
+    for (const card of cards) {
+      const product = card.productList?.find(p => p.id === route.productId);
+      if (product) return { card, product };
+    }
+  }
+
+  return null;
+};
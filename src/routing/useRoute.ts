@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Route, parseRoute, formatRoute } from './routes';
+
+// Minimal History API binding. Entries pushed by the app are tagged so the
+// overlay can tell whether "close" should step back or replace the URL
+// (a deep link opened in a fresh tab has nothing to go back to).
+
+interface HistoryState {
+  btfPushed?: boolean;
+}
+
+// Settings like ?theme=, ?quality= and ?fishRenderer= live in the query
+// string and outlast any route change
+const withQuery = (path: string) => path + window.location.search + window.location.hash;
+
+export const useRoute = () => {
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.pathname));
+
+  useEffect(() => {
+    const handlePopState = () => setRoute(parseRoute(window.location.pathname));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const navigate = useCallback((next: Route, options: { replace?: boolean } = {}) => {
+    const path = formatRoute(next);
+    if (path === window.location.pathname) return;
+
+    if (options.replace) {
+      const state = (window.history.state ?? {}) as HistoryState;
+      window.history.replaceState(state, '', withQuery(path));
+    } else {
+      window.history.pushState({ btfPushed: true } satisfies HistoryState, '', withQuery(path));
+    }
+    setRoute(next);
+  }, []);
+
+  // Leave an overlay route: step back if we pushed it, otherwise rewrite to home.
+  const exitToHome = useCallback(() => {
+    if (window.location.pathname === '/') return;
+
+    const state = (window.history.state ?? {}) as HistoryState;
+    if (state.btfPushed) {
+      window.history.back();
+    } else {
+      window.history.replaceState({}, '', withQuery('/'));
+      setRoute(parseRoute('/'));
+    }
+  }, []);
+
+  return { route, navigate, exitToHome };
+};
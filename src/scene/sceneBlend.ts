@@ -0,0 +1,103 @@
+import { LAYER_PRIORITY, registerLayer } from '../render/frameScheduler';
+import { CompassLayerScene, COMPASS_LAYER_KINDS, SceneConfig, sceneAt } from './scenes';
+
+// The scene the layers actually draw with. Changing the active section
+// starts an eased transition from wherever the blend currently is, so a
+// quick scroll through several sections never jumps.
+//
+// Layers read getScene() / getBlendedSection() from their frame callbacks;
+// the blend itself advances as a critical scheduler layer, ahead of them.
+
+const TRANSITION_MS = 1200;
+
+let activeSection = 0;
+let fromScene: SceneConfig = sceneAt(0);
+let toScene: SceneConfig = fromScene;
+let currentScene: SceneConfig = fromScene;
+let fromSection = 0;
+let blendedSection = 0;
+let elapsed = TRANSITION_MS;
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Hues go the short way round the colour wheel
+const lerpHue = (a: number, b: number, t: number) => {
+  const diff = ((b - a + 540) % 360) - 180;
+  return (a + diff * t + 360) % 360;
+};
+
+const lerpCompassLayer = (a: CompassLayerScene, b: CompassLayerScene, t: number): CompassLayerScene => ({
+  radius: lerp(a.radius, b.radius, t),
+  radiusVelocity: lerp(a.radiusVelocity, b.radiusVelocity, t),
+  alpha: lerp(a.alpha, b.alpha, t),
+  alphaVelocity: lerp(a.alphaVelocity, b.alphaVelocity, t),
+  rotation: lerp(a.rotation, b.rotation, t)
+});
+
+export const blendScenes = (a: SceneConfig, b: SceneConfig, t: number): SceneConfig => {
+  const compass = {} as SceneConfig['compass'];
+  for (const kind of COMPASS_LAYER_KINDS) {
+    compass[kind] = lerpCompassLayer(a.compass[kind], b.compass[kind], t);
+  }
+
+  return {
+    palette: {
+      chaosHue: lerpHue(a.palette.chaosHue, b.palette.chaosHue, t),
+      structureHue: lerpHue(a.palette.structureHue, b.palette.structureHue, t),
+      accentHue: lerpHue(a.palette.accentHue, b.palette.accentHue, t)
+    },
+    structure: lerp(a.structure, b.structure, t),
+    // Patterns can't be mixed, so swap halfway
+    geometricEffect: t < 0.5 ? a.geometricEffect : b.geometricEffect,
+    fish: {
+      speed: lerp(a.fish.speed, b.fish.speed, t),
+      cohesion: lerp(a.fish.cohesion, b.fish.cohesion, t),
+      wander: lerp(a.fish.wander, b.fish.wander, t),
+      predators: lerp(a.fish.predators, b.fish.predators, t)
+    },
+    compass,
+    currentStrength: lerp(a.currentStrength, b.currentStrength, t)
+  };
+};
+
+const easeInOut = (t: number) => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2);
+
+export const getScene = () => currentScene;
+
+// Section index eased along with the scene, e.g. 1.4 partway from 1 to 2
+export const getBlendedSection = () => blendedSection;
+
+export const getActiveSection = () => activeSection;
+
+export const setActiveSection = (index: number) => {
+  if (index === activeSection) return;
+  activeSection = index;
+  fromScene = currentScene;
+  fromSection = blendedSection;
+  toScene = sceneAt(index);
+  elapsed = 0;
+};
+
+const step = (delta: number) => {
+  if (elapsed >= TRANSITION_MS) return;
+  elapsed = Math.min(elapsed + delta, TRANSITION_MS);
+
+  const t = easeInOut(elapsed / TRANSITION_MS);
+  currentScene = blendScenes(fromScene, toScene, t);
+  blendedSection = lerp(fromSection, activeSection, t);
+};
+
+let stopBlend: (() => void) | null = null;
+
+// Safe to call twice.
+export const startSceneBlend = () => {
+  if (stopBlend) return stopBlend;
+
+  const unregister = registerLayer('scene-blend', ({ delta }) => step(delta), { priority: LAYER_PRIORITY.critical });
+
+  stopBlend = () => {
+    unregister();
+    stopBlend = null;
+  };
+  return stopBlend;
+};
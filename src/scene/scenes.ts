@@ -0,0 +1,194 @@
+import { StoryCard } from '../types';
+import { STORY_CARDS } from '../constants';
+
+// How every background layer looks and behaves in each section of the page.
+//
+// Sections run hero, one per story card, footer. Card sections take their
+// scene from the card's type, so a new card gets a fitting look without
+// touching the layers; CARD_SCENE_OVERRIDES tunes an individual card.
+// Layers never read these directly: sceneBlend.ts eases between them as the
+// active section changes.
+
+export type CompassLayerKind =
+  | 'outerRing'
+  | 'cardinalPoints'
+  | 'intermediatePoints'
+  | 'innerRose'
+  | 'centerStar'
+  | 'ornamentals'
+  | 'decorativeCircles';
+
+export const COMPASS_LAYER_KINDS: CompassLayerKind[] = [
+  'outerRing',
+  'ornamentals',
+  'cardinalPoints',
+  'intermediatePoints',
+  'decorativeCircles',
+  'innerRose',
+  'centerStar'
+];
+
+// Multipliers on a compass layer's base radius / alpha / rotation. The
+// *Velocity terms add scroll velocity on top, so fast scrolling swells it.
+export interface CompassLayerScene {
+  radius: number;
+  radiusVelocity: number;
+  alpha: number;
+  alphaVelocity: number;
+  rotation: number;
+}
+
+export interface ScenePalette {
+  // Hues in degrees for the Oceanic Emergence shader
+  chaosHue: number;
+  structureHue: number;
+  accentHue: number;
+}
+
+// Pattern the Oceanic Emergence shader draws
+export type GeometricEffect = 'surface' | 'crystal' | 'lotus' | 'mandala' | 'chain' | 'depths';
+
+export interface FishScene {
+  // Multiplier on swim speed limits
+  speed: number;
+  // Multiplier on the pull toward neighbours; higher packs schools tighter
+  cohesion: number;
+  // Multiplier on leaders' wandering
+  wander: number;
+  // How often a predator silhouette crosses: 0 never, 1 at the full
+  // PREDATOR_PASS rate (fish/simulation.ts)
+  predators: number;
+}
+
+export interface SceneConfig {
+  palette: ScenePalette;
+  // 0 = pure chaos, 1 = full sacred geometry
+  structure: number;
+  geometricEffect: GeometricEffect;
+  fish: FishScene;
+  compass: Record<CompassLayerKind, CompassLayerScene>;
+  // Multiplier on the ocean current forces
+  currentStrength: number;
+}
+
+export interface Section {
+  // 'hero', 'footer' or 'card-<card id>'
+  id: string;
+  card?: StoryCard;
+  scene: SceneConfig;
+}
+
+const NEUTRAL_COMPASS_LAYER: CompassLayerScene = {
+  radius: 1,
+  radiusVelocity: 0,
+  alpha: 1,
+  alphaVelocity: 0,
+  rotation: 1
+};
+
+// Applies `base` to every compass layer and `focus` on top for the listed ones
+const compassScene = (
+  base: Partial<CompassLayerScene>,
+  focus?: { layers: CompassLayerKind[] } & Partial<CompassLayerScene>
+) => {
+  const scene = {} as Record<CompassLayerKind, CompassLayerScene>;
+  for (const kind of COMPASS_LAYER_KINDS) {
+    scene[kind] = { ...NEUTRAL_COMPASS_LAYER, ...base };
+    if (focus?.layers.includes(kind)) {
+      const { layers: _layers, ...overrides } = focus;
+      scene[kind] = { ...scene[kind], ...overrides };
+    }
+  }
+  return scene;
+};
+
+const DEFAULT_PALETTE: ScenePalette = { chaosHue: 160, structureHue: 280, accentHue: 45 };
+
+const HERO_SCENE: SceneConfig = {
+  palette: DEFAULT_PALETTE,
+  structure: 0.1,
+  geometricEffect: 'surface',
+  fish: { speed: 0.8, cohesion: 0.8, wander: 1.4, predators: 0 },
+  // Subtle presence
+  compass: compassScene({ alpha: 0.7 }),
+  currentStrength: 0.8
+};
+
+const CARD_TYPE_SCENES: Record<StoryCard['type'], SceneConfig> = {
+  // Gentle expansion
+  process: {
+    palette: DEFAULT_PALETTE,
+    structure: 0.4,
+    geometricEffect: 'crystal',
+    fish: { speed: 1, cohesion: 1, wander: 1, predators: 0 },
+    compass: compassScene({ radiusVelocity: 0.1, alpha: 0.8, alphaVelocity: 0.2 }),
+    currentStrength: 0.9
+  },
+  // Inner layers light up; tuna and swordfish pass through
+  product: {
+    palette: { ...DEFAULT_PALETTE, accentHue: 30 },
+    structure: 0.6,
+    geometricEffect: 'lotus',
+    fish: { speed: 1.2, cohesion: 1.2, wander: 0.8, predators: 1 },
+    compass: compassScene({}, {
+      layers: ['innerRose', 'centerStar'],
+      radius: 1.1,
+      radiusVelocity: 0.15,
+      alpha: 1.2,
+      rotation: 1.3
+    }),
+    currentStrength: 1
+  },
+  // Ornamental rings come forward
+  catalog: {
+    palette: { ...DEFAULT_PALETTE, structureHue: 260 },
+    structure: 0.85,
+    geometricEffect: 'mandala',
+    fish: { speed: 0.9, cohesion: 1.4, wander: 0.6, predators: 0 },
+    compass: compassScene({}, {
+      layers: ['ornamentals', 'decorativeCircles'],
+      radius: 1.15,
+      radiusVelocity: 0.2,
+      alpha: 1.1
+    }),
+    currentStrength: 0.7
+  },
+  // The whole compass engages
+  ethos: {
+    palette: { ...DEFAULT_PALETTE, accentHue: 50 },
+    structure: 0.7,
+    geometricEffect: 'chain',
+    fish: { speed: 1.1, cohesion: 1.6, wander: 0.5, predators: 0 },
+    compass: compassScene({ radius: 1.05, radiusVelocity: 0.3, alpha: 0.9, alphaVelocity: 0.4, rotation: 1.2 }),
+    currentStrength: 1.1
+  }
+};
+
+// Per-card tweaks on top of its type's scene, keyed by card id
+const CARD_SCENE_OVERRIDES: Record<string, Partial<SceneConfig>> = {};
+
+const FOOTER_SCENE: SceneConfig = {
+  palette: DEFAULT_PALETTE,
+  structure: 0.95,
+  geometricEffect: 'depths',
+  fish: { speed: 0.7, cohesion: 1.3, wander: 0.8, predators: 0 },
+  compass: compassScene({ alpha: 0.8 }),
+  currentStrength: 0.6
+};
+
+export const cardSectionId = (card: StoryCard) => `card-${card.id}`;
+
+export const SECTIONS: Section[] = [
+  { id: 'hero', scene: HERO_SCENE },
+  ...STORY_CARDS.map(card => ({
+    id: cardSectionId(card),
+    card,
+    scene: { ...CARD_TYPE_SCENES[card.type], ...CARD_SCENE_OVERRIDES[card.id] }
+  })),
+  { id: 'footer', scene: FOOTER_SCENE }
+];
+
+// Index into SECTIONS, or 0 (hero) for an unknown id
+export const sectionIndexOf = (id: string) => Math.max(0, SECTIONS.findIndex(section => section.id === id));
+
+export const sceneAt = (index: number) => SECTIONS[Math.min(Math.max(index, 0), SECTIONS.length - 1)].scene;
@@ -0,0 +1,77 @@
+import { ScrollTrigger } from 'gsap/ScrollTrigger';
+
+// Tracks which page section is on screen, and how far through each one the
+// reader has scrolled, for the visual layers.
+//
+// Each section (hero, one per story card, footer) registers its element under
+// a stable id (see scene/scenes.ts) and gets a ScrollTrigger. The returned
+// function kills that trigger, so sections can come and go with the content.
+
+export interface SectionRange {
+  // ScrollTrigger start / end, e.g. 'top center'
+  start?: string;
+  end?: string;
+}
+
+type Listener = (id: string) => void;
+
+const listeners = new Set<Listener>();
+const triggers = new Map<string, ScrollTrigger>();
+const progress = new Map<string, number>();
+let activeId = 'hero';
+
+export const getActiveSectionId = () => activeId;
+
+// How far through the active section's range the page has scrolled, 0 to 1
+export const getActiveSectionProgress = () => progress.get(activeId) ?? 0;
+
+export const subscribeActiveSection = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const activate = (id: string) => {
+  if (id === activeId) return;
+  activeId = id;
+  listeners.forEach(listener => listener(id));
+};
+
+// The section under the viewport by the remaining triggers: the one in range,
+// else the last one scrolled past, else the hero
+const currentSectionId = () => {
+  let passed: { id: string; start: number } | null = null;
+  for (const [id, trigger] of triggers) {
+    if (trigger.isActive) return id;
+    if (trigger.start <= trigger.scroll() && (!passed || trigger.start > passed.start)) {
+      passed = { id, start: trigger.start };
+    }
+  }
+  return passed?.id ?? 'hero';
+};
+
+// Re-registering an id replaces its trigger.
+export const registerSection = (id: string, element: Element, { start = 'top center', end = 'bottom center' }: SectionRange = {}) => {
+  triggers.get(id)?.kill();
+
+  const trigger = ScrollTrigger.create({
+    trigger: element,
+    start,
+    end,
+    onEnter: () => activate(id),
+    onEnterBack: () => activate(id),
+    onUpdate: self => progress.set(id, self.progress),
+    onRefresh: self => progress.set(id, self.progress)
+  });
+  triggers.set(id, trigger);
+
+  return () => {
+    // A newer registration under the same id owns the entry now
+    if (triggers.get(id) !== trigger) return;
+    trigger.kill();
+    triggers.delete(id);
+    progress.delete(id);
+    if (activeId === id) activate(currentSectionId());
+  };
+};
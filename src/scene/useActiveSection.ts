@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+import { getActiveSectionId, subscribeActiveSection } from './sectionRegistry';
+import { sectionIndexOf } from './scenes';
+
+// Id of the section on screen and its index into SECTIONS; re-renders the
+// caller when it changes.
+export const useActiveSection = () => {
+  const id = useSyncExternalStore(subscribeActiveSection, getActiveSectionId);
+  return { id, index: sectionIndexOf(id) };
+};
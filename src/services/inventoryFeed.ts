@@ -0,0 +1,153 @@
+// Live availability for the "STOCK: LIVE" catalog.
+// A feed streams InventoryUpdate batches; the catalog falls back to its
+// static content whenever the feed is off, unreachable or drops.
+
+export type StockLevel = 'in-stock' | 'low' | 'out';
+
+export interface InventoryUpdate {
+  productId: string;
+  // Cases available to ship
+  available: number;
+  updatedAt: string;
+}
+
+export type FeedStatus = 'connecting' | 'live' | 'offline';
+
+export interface InventoryFeedHandlers {
+  onUpdates: (updates: InventoryUpdate[]) => void;
+  onStatus: (status: FeedStatus) => void;
+}
+
+export interface InventoryFeed {
+  name: 'sse' | 'websocket';
+  // Returns a disconnect function
+  connect: (productIds: string[], handlers: InventoryFeedHandlers) => () => void;
+}
+
+export const LOW_STOCK_THRESHOLD = 20;
+
+export const STOCK_LABELS: Record<StockLevel, string> = {
+  'in-stock': 'In Stock',
+  'low': 'Low Stock',
+  'out': 'Out of Stock'
+};
+
+export const stockLevel = (available: number): StockLevel => {
+  if (available <= 0) return 'out';
+  if (available <= LOW_STOCK_THRESHOLD) return 'low';
+  return 'in-stock';
+};
+
+// Give up on a feed that hasn't delivered its first batch by then
+const CONNECT_TIMEOUT_MS = 8000;
+
+const isUpdate = (value: unknown): value is InventoryUpdate => {
+  const update = value as InventoryUpdate;
+  return (
+    typeof update === 'object' && update !== null &&
+    typeof update.productId === 'string' &&
+    typeof update.available === 'number' &&
+    typeof update.updatedAt === 'string'
+  );
+};
+
+// Messages carry a JSON array of updates (a single update is accepted too).
+// Anything malformed is dropped rather than breaking the stream.
+export const parseInventoryMessage = (data: string): InventoryUpdate[] => {
+  try {
+    const parsed = JSON.parse(data);
+    return (Array.isArray(parsed) ? parsed : [parsed]).filter(isUpdate);
+  } catch {
+    return [];
+  }
+};
+
+const withProducts = (url: string, productIds: string[]) => {
+  const target = new URL(url, window.location.href);
+  target.searchParams.set('products', productIds.join(','));
+  return target.toString();
+};
+
+export const createSseFeed = (url: string): InventoryFeed => ({
+  name: 'sse',
+  connect(productIds, { onUpdates, onStatus }) {
+    onStatus('connecting');
+    const source = new EventSource(withProducts(url, productIds));
+    let delivered = false;
+    const timeout = window.setTimeout(() => {
+      source.close();
+      onStatus('offline');
+    }, CONNECT_TIMEOUT_MS);
+
+    // A reconnect is live as soon as it opens; the first connection waits
+    // for its snapshot
+    source.onopen = () => {
+      if (delivered) onStatus('live');
+    };
+    source.onmessage = event => {
+      window.clearTimeout(timeout);
+      delivered = true;
+      onStatus('live');
+      onUpdates(parseInventoryMessage(event.data));
+    };
+    // EventSource retries transient drops itself; CLOSED means it gave up
+    // (e.g. a non-200 response), CONNECTING means it is retrying.
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        window.clearTimeout(timeout);
+        onStatus('offline');
+      } else {
+        onStatus('connecting');
+      }
+    };
+
+    return () => {
+      window.clearTimeout(timeout);
+      source.close();
+    };
+  }
+});
+
+export const createWebSocketFeed = (url: string): InventoryFeed => ({
+  name: 'websocket',
+  connect(productIds, { onUpdates, onStatus }) {
+    onStatus('connecting');
+    const target = new URL(withProducts(url, productIds));
+    target.protocol = target.protocol === 'https:' ? 'wss:' : target.protocol === 'http:' ? 'ws:' : target.protocol;
+
+    let closedByClient = false;
+    const socket = new WebSocket(target.toString());
+    const timeout = window.setTimeout(() => socket.close(), CONNECT_TIMEOUT_MS);
+
+    socket.onmessage = event => {
+      window.clearTimeout(timeout);
+      onStatus('live');
+      onUpdates(parseInventoryMessage(String(event.data)));
+    };
+    socket.onclose = () => {
+      window.clearTimeout(timeout);
+      if (!closedByClient) onStatus('offline');
+    };
+
+    return () => {
+      closedByClient = true;
+      window.clearTimeout(timeout);
+      socket.close();
+    };
+  }
+});
+
+// VITE_INVENTORY_FEED picks the transport. Dev defaults to the SSE mock;
+// production builds stay static unless a feed is configured.
+export const createInventoryFeed = (): InventoryFeed | null => {
+  const env = import.meta.env;
+  const mode = env.VITE_INVENTORY_FEED ?? (env.DEV ? 'sse' : 'off');
+
+  if (mode === 'websocket' && env.VITE_INVENTORY_FEED_URL) {
+    return createWebSocketFeed(env.VITE_INVENTORY_FEED_URL);
+  }
+  if (mode === 'sse') {
+    return createSseFeed(env.VITE_INVENTORY_FEED_URL ?? '/api/inventory/stream');
+  }
+  return null;
+};
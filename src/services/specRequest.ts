@@ -0,0 +1,154 @@
+import { StoryCard, ProductItem } from '../types';
+
+// Spec sheet requests from the "REQUEST SHEET" button.
+// The form builds a SpecRequest; an adapter decides where it goes.
+
+export interface SpecRequestFields {
+  name: string;
+  company: string;
+  email: string;
+  phone: string;
+  volume: string;
+  message: string;
+}
+
+export interface SpecRequest extends SpecRequestFields {
+  cardId: string;
+  cardTitle: string;
+  coordinates: string;
+  productId?: string;
+  productName?: string;
+  submittedAt: string;
+}
+
+export type SpecRequestErrors = Partial<Record<keyof SpecRequestFields, string>>;
+
+export interface SpecRequestResult {
+  reference?: string;
+  message: string;
+}
+
+export interface SpecRequestAdapter {
+  name: 'http' | 'mailto';
+  submit: (request: SpecRequest) => Promise<SpecRequestResult>;
+}
+
+export class SpecRequestError extends Error {
+  constructor(message: string, public readonly retryable = true) {
+    super(message);
+    this.name = 'SpecRequestError';
+  }
+}
+
+export const EMPTY_FIELDS: SpecRequestFields = {
+  name: '',
+  company: '',
+  email: '',
+  phone: '',
+  volume: '',
+  message: ''
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^[+()\d\s.-]{7,}$/;
+
+export const validateSpecRequest = (fields: SpecRequestFields): SpecRequestErrors => {
+  const errors: SpecRequestErrors = {};
+
+  if (!fields.name.trim()) errors.name = 'Name is required';
+  if (!fields.company.trim()) errors.company = 'Company is required';
+  if (!fields.email.trim()) {
+    errors.email = 'Email is required';
+  } else if (!EMAIL_PATTERN.test(fields.email.trim())) {
+    errors.email = 'Enter a valid email address';
+  }
+  if (fields.phone.trim() && !PHONE_PATTERN.test(fields.phone.trim())) {
+    errors.phone = 'Enter a valid phone number';
+  }
+  if (fields.message.length > 2000) errors.message = 'Keep the message under 2000 characters';
+
+  return errors;
+};
+
+export const buildSpecRequest = (
+  fields: SpecRequestFields,
+  card: StoryCard,
+  product?: ProductItem
+): SpecRequest => ({
+  ...fields,
+  name: fields.name.trim(),
+  company: fields.company.trim(),
+  email: fields.email.trim(),
+  phone: fields.phone.trim(),
+  cardId: card.id,
+  cardTitle: card.title,
+  coordinates: card.coordinates,
+  productId: product?.id,
+  productName: product?.name,
+  submittedAt: new Date().toISOString()
+});
+
+// --- Adapters ---
+
+export const createHttpAdapter = (endpoint: string): SpecRequestAdapter => ({
+  name: 'http',
+  submit: async (request) => {
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request)
+      });
+    } catch {
+      throw new SpecRequestError('Could not reach the request service. Check your connection and try again.');
+    }
+
+    if (!response.ok) {
+      // 4xx means the payload was rejected; retrying the same data won't help
+      const retryable = response.status >= 500 || response.status === 429;
+      throw new SpecRequestError(`Request failed (${response.status}). Please try again.`, retryable);
+    }
+
+    const body = await response.json().catch(() => ({})) as { reference?: string };
+    return {
+      reference: body.reference,
+      message: 'Request received. Our sales desk will send the sheet shortly.'
+    };
+  }
+});
+
+export const createMailtoAdapter = (address: string): SpecRequestAdapter => ({
+  name: 'mailto',
+  submit: async (request) => {
+    const subject = `Spec sheet request: ${request.productName ?? request.cardTitle}`;
+    const lines = [
+      `Item: ${request.productName ?? request.cardTitle} (${request.coordinates})`,
+      `Name: ${request.name}`,
+      `Company: ${request.company}`,
+      `Email: ${request.email}`
+    ];
+    if (request.phone) lines.push(`Phone: ${request.phone}`);
+    if (request.volume) lines.push(`Expected volume: ${request.volume}`);
+    if (request.message) lines.push('', request.message);
+
+    window.location.href =
+      `mailto:${address}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(lines.join('\n'))}`;
+
+    return { message: 'Your email client has opened with the request. Send it to complete.' };
+  }
+});
+
+// Development uses the mock API served by the Vite dev server (src/dev/mockApi.ts).
+// The static production deploy has no API, so production builds only POST to a
+// configured VITE_SPEC_REQUEST_ENDPOINT and otherwise fall back to mailto.
+export const createSpecRequestAdapter = (): SpecRequestAdapter => {
+  const env = import.meta.env;
+  const endpoint = env.VITE_SPEC_REQUEST_ENDPOINT ?? (env.DEV ? '/api/spec-requests' : undefined);
+  const mode = env.VITE_SPEC_REQUEST_ADAPTER ?? (endpoint ? 'http' : 'mailto');
+
+  if (mode === 'http' && endpoint) {
+    return createHttpAdapter(endpoint);
+  }
+  return createMailtoAdapter(env.VITE_SPEC_REQUEST_EMAIL ?? 'sales@betterthanfresh.com');
+};
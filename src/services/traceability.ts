@@ -0,0 +1,184 @@
+// Lot-code lookups for the chain-of-custody card.
+// A provider resolves a lot code to a LotRecord (or null when unknown);
+// the UI turns it into a timeline with toCustodyTimeline.
+
+export interface LotRecord {
+  lotCode: string;
+  species: string;
+  productId?: string;
+  vessel: {
+    name: string;
+    flag: string;
+    gear: string;
+    homePort: string;
+    tripStartedAt: string;
+  };
+  catch: {
+    zone: string;
+    coordinates: string;
+    caughtAt: string;
+  };
+  freeze: {
+    frozenAt: string;
+    temperatureC: number;
+    method: string;
+  };
+  plant: {
+    name: string;
+    location: string;
+    certification: string;
+    processedAt: string;
+  };
+  shipment: {
+    carrier: string;
+    container: string;
+    destination: string;
+    departedAt: string;
+    arrivedAt?: string;
+  };
+}
+
+export type CustodyStage = 'vessel' | 'catch' | 'freeze' | 'plant' | 'shipment';
+
+export interface CustodyEvent {
+  stage: CustodyStage;
+  title: string;
+  at: string;
+  details: [label: string, value: string][];
+}
+
+export interface TraceabilityProvider {
+  name: 'http' | 'mock';
+  lookup: (lotCode: string) => Promise<LotRecord | null>;
+}
+
+export class TraceabilityError extends Error {
+  constructor(message: string, public readonly retryable = true) {
+    super(message);
+    this.name = 'TraceabilityError';
+  }
+}
+
+// Species prefix, year + month, sequence: SW-2410-0117
+export const LOT_CODE_PATTERN = /^[A-Z]{2}-\d{4}-\d{4}$/;
+
+export const normalizeLotCode = (input: string) => input.trim().toUpperCase().replace(/\s+/g, '');
+
+type RawRecord = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawRecord => typeof value === 'object' && value !== null;
+
+const hasStrings = (value: unknown, keys: string[]): value is RawRecord =>
+  isObject(value) && keys.every(key => typeof value[key] === 'string');
+
+// Everything toCustodyTimeline reads, so a bad payload can't break the timeline
+export const isLotRecord = (value: unknown): value is LotRecord => {
+  if (!hasStrings(value, ['lotCode', 'species'])) return false;
+  const { vessel, catch: landed, freeze, plant, shipment } = value;
+  return (
+    hasStrings(vessel, ['name', 'flag', 'gear', 'homePort', 'tripStartedAt']) &&
+    hasStrings(landed, ['zone', 'coordinates', 'caughtAt']) &&
+    hasStrings(freeze, ['frozenAt', 'method']) &&
+    typeof freeze.temperatureC === 'number' &&
+    hasStrings(plant, ['name', 'location', 'certification', 'processedAt']) &&
+    hasStrings(shipment, ['carrier', 'container', 'destination', 'departedAt']) &&
+    (shipment.arrivedAt === undefined || typeof shipment.arrivedAt === 'string')
+  );
+};
+
+export const toCustodyTimeline = (record: LotRecord): CustodyEvent[] => {
+  const { vessel, catch: landed, freeze, plant, shipment } = record;
+  return [
+    {
+      stage: 'vessel',
+      title: `${vessel.name} sails from ${vessel.homePort}`,
+      at: vessel.tripStartedAt,
+      details: [['Flag', vessel.flag], ['Gear', vessel.gear]]
+    },
+    {
+      stage: 'catch',
+      title: `Caught in ${landed.zone}`,
+      at: landed.caughtAt,
+      details: [['Position', landed.coordinates], ['Species', record.species]]
+    },
+    {
+      stage: 'freeze',
+      title: `Frozen at ${freeze.temperatureC}°C`,
+      at: freeze.frozenAt,
+      details: [['Method', freeze.method]]
+    },
+    {
+      stage: 'plant',
+      title: plant.name,
+      at: plant.processedAt,
+      details: [['Location', plant.location], ['Certification', plant.certification]]
+    },
+    {
+      stage: 'shipment',
+      title: `Shipped to ${shipment.destination}`,
+      at: shipment.departedAt,
+      details: [
+        ['Carrier', shipment.carrier],
+        ['Container', shipment.container],
+        ['Arrived', shipment.arrivedAt ? new Date(shipment.arrivedAt).toLocaleString() : 'In transit']
+      ]
+    }
+  ];
+};
+
+export const createHttpProvider = (endpoint: string): TraceabilityProvider => ({
+  name: 'http',
+  async lookup(lotCode) {
+    let response: Response;
+    try {
+      response = await fetch(`${endpoint}/${encodeURIComponent(lotCode)}`, {
+        headers: { Accept: 'application/json' }
+      });
+    } catch {
+      throw new TraceabilityError('Could not reach the traceability service. Check your connection and try again.');
+    }
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new TraceabilityError(
+        `Traceability lookup failed (${response.status}).`,
+        response.status >= 500 || response.status === 429
+      );
+    }
+
+    const body: unknown = await response.json().catch(() => null);
+    if (!isLotRecord(body)) {
+      throw new TraceabilityError('The traceability service sent a record we could not read. Please try again later.', false);
+    }
+    return body;
+  }
+});
+
+// In-browser lookup against the bundled dataset, loaded on first use.
+export const createMockProvider = (latencyMs = 500): TraceabilityProvider => ({
+  name: 'mock',
+  async lookup(lotCode) {
+    const { MOCK_LOTS, MOCK_FAILING_LOT_CODE } = await import('../dev/mockLots');
+    await new Promise(resolve => setTimeout(resolve, latencyMs));
+    if (lotCode === MOCK_FAILING_LOT_CODE) {
+      throw new TraceabilityError('Traceability service unavailable (simulated).');
+    }
+    return MOCK_LOTS.find(lot => lot.lotCode === lotCode) ?? null;
+  }
+});
+
+// VITE_TRACEABILITY_ENDPOINT switches to the real service. Dev falls back to
+// the bundled mock dataset; production builds have no lookup (null) unless a
+// service is configured, so demo lots never pass for real records.
+export const createTraceabilityProvider = (): TraceabilityProvider | null => {
+  const env = import.meta.env;
+  const mode = env.VITE_TRACEABILITY_PROVIDER ?? (env.VITE_TRACEABILITY_ENDPOINT ? 'http' : 'mock');
+
+  if (mode === 'http') {
+    return createHttpProvider(env.VITE_TRACEABILITY_ENDPOINT ?? '/api/lots');
+  }
+  if (mode === 'mock' && env.DEV) {
+    return createMockProvider();
+  }
+  return null;
+};
@@ -0,0 +1,34 @@
+import { useEffect, useMemo, useState } from 'react';
+import { FeedStatus, InventoryFeed, InventoryUpdate, createInventoryFeed } from './inventoryFeed';
+
+// Latest availability per product id. Stock is only reported while the feed
+// is live, so callers render the static catalog in every other state.
+export const useInventoryFeed = (productIds: string[], feed?: InventoryFeed | null) => {
+  const activeFeed = useMemo(() => (feed === undefined ? createInventoryFeed() : feed), [feed]);
+  const [status, setStatus] = useState<FeedStatus>(activeFeed ? 'connecting' : 'offline');
+  const [stock, setStock] = useState<Record<string, InventoryUpdate>>({});
+  const idsKey = productIds.join(',');
+
+  useEffect(() => {
+    if (!activeFeed || !idsKey) {
+      setStatus('offline');
+      return;
+    }
+
+    const ids = idsKey.split(',');
+    return activeFeed.connect(ids, {
+      onStatus: setStatus,
+      onUpdates: updates => {
+        setStock(current => {
+          const next = { ...current };
+          updates
+            .filter(update => ids.includes(update.productId))
+            .forEach(update => { next[update.productId] = update; });
+          return next;
+        });
+      }
+    });
+  }, [activeFeed, idsKey]);
+
+  return { status, stock: status === 'live' ? stock : {} };
+};
@@ -0,0 +1,91 @@
+// Background looks the site can run with, for A/B-ing them side by side.
+//
+// The active theme comes from ?theme=<id>, then the last choice saved in
+// this browser, then DEFAULT_THEME. Choosing one at runtime saves it and
+// rewrites the URL param so the link reproduces the look.
+
+export type ThemeId = 'nautical-cartography' | 'oceanic-emergence' | 'chaos-noise' | 'lotus-mandala';
+
+export interface ThemeDefinition {
+  id: ThemeId;
+  label: string;
+  description: string;
+}
+
+export const THEMES: ThemeDefinition[] = [
+  {
+    id: 'nautical-cartography',
+    label: 'Nautical Cartography',
+    description: 'Raymarched chart lines and depth contours'
+  },
+  {
+    id: 'oceanic-emergence',
+    label: 'Oceanic Emergence',
+    description: 'Noise resolving into the sacred geometry mandala'
+  },
+  {
+    id: 'chaos-noise',
+    label: 'Original Chaos Noise',
+    description: 'The first standalone page: simplex chaos and fish-school swirls'
+  },
+  {
+    id: 'lotus-mandala',
+    label: 'Sacred Lotus Mandala',
+    description: 'Chaos settling into rings of lotus petals'
+  }
+];
+
+export const DEFAULT_THEME: ThemeId = 'nautical-cartography';
+
+const THEME_PARAM = 'theme';
+const STORAGE_KEY = 'btf:theme';
+
+const isThemeId = (value: unknown): value is ThemeId => THEMES.some(theme => theme.id === value);
+
+const readInitialTheme = (): ThemeId => {
+  if (typeof window === 'undefined') return DEFAULT_THEME;
+
+  const param = new URLSearchParams(window.location.search).get(THEME_PARAM);
+  if (isThemeId(param)) return param;
+
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (isThemeId(stored)) return stored;
+  } catch {
+    // Storage unavailable: fall through to the default
+  }
+  return DEFAULT_THEME;
+};
+
+type Listener = (theme: ThemeId) => void;
+
+const listeners = new Set<Listener>();
+let activeTheme = readInitialTheme();
+
+export const getTheme = () => activeTheme;
+
+export const subscribeTheme = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const setTheme = (theme: ThemeId) => {
+  if (theme === activeTheme) return;
+  activeTheme = theme;
+
+  try {
+    window.localStorage.setItem(STORAGE_KEY, theme);
+  } catch {
+    // Private mode / quota: the choice just won't persist
+  }
+
+  // Keep the history entry's state; the router tags entries it pushed
+  const url = new URL(window.location.href);
+  if (theme === DEFAULT_THEME) url.searchParams.delete(THEME_PARAM);
+  else url.searchParams.set(THEME_PARAM, theme);
+  window.history.replaceState(window.history.state, '', url);
+
+  listeners.forEach(listener => listener(theme));
+};
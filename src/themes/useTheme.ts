@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { getTheme, subscribeTheme } from './themes';
+
+// Active theme id; re-renders the caller when it changes.
+export const useTheme = () => useSyncExternalStore(subscribeTheme, getTheme);
@@ -1,16 +1,57 @@
 
-export interface ProductSpec {
+export type WeightUnit = 'oz' | 'lb' | 'g' | 'kg';
+
+export interface Weight {
+  value: number;
+  unit: WeightUnit;
+}
+
+export interface WeightRange {
+  min: number;
+  max: number;
+  unit: WeightUnit;
+}
+
+export type PackFormat = 'IVP' | 'IQF' | 'Bulk';
+export type CaseType = 'Master' | 'Box';
+export type Treatment = 'CO' | 'FAS';
+
+export interface ProductSpecs {
+  cut: string[];
+  packFormat?: PackFormat;
+  portionSize?: WeightRange;
+  caseWeight?: Weight;
+  caseType?: CaseType;
+  origin?: string[];
+  grade?: string[];
+  treatments?: Treatment[];
+}
+
+export type SpecKey = 'cut' | 'grade' | 'portionSize' | 'pack' | 'origin' | 'treatments';
+
+// Display row derived from ProductSpecs (see catalog/specs.ts)
+export interface SpecRow {
+  key: SpecKey;
   label: string;
   value: string;
 }
 
+// Fish the background school can take the shape of (see fish/species.ts)
+export type FishSpecies = 'tuna' | 'swordfish' | 'mahi' | 'snapper' | 'grouper';
+
 export interface ProductItem {
+  id: string;
   name: string;
   description: string;
-  specs: ProductSpec[];
+  specs: ProductSpecs;
   image: string;
+  // The school morphs into this while the product is open
+  species?: FishSpecies;
 }
 
+// Interactive tool embedded in a card's overlay
+export type CardFeature = 'traceability';
+
 export interface StoryCard {
   id: string;
   title: string;
@@ -20,6 +61,9 @@ export interface StoryCard {
   image: string;
   coordinates: string;
   type: 'product' | 'ethos' | 'process' | 'catalog';
+  feature?: CardFeature;
+  // The school morphs into this while the card is on screen or open
+  species?: FishSpecies;
   productList?: ProductItem[];
 }
 
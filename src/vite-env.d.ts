@@ -0,0 +1,15 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SPEC_REQUEST_ADAPTER?: 'http' | 'mailto';
+  readonly VITE_SPEC_REQUEST_ENDPOINT?: string;
+  readonly VITE_SPEC_REQUEST_EMAIL?: string;
+  readonly VITE_INVENTORY_FEED?: 'sse' | 'websocket' | 'off';
+  readonly VITE_INVENTORY_FEED_URL?: string;
+  readonly VITE_TRACEABILITY_PROVIDER?: 'http' | 'mock' | 'off';
+  readonly VITE_TRACEABILITY_ENDPOINT?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
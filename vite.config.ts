@@ -1,6 +1,8 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { storyContentPlugin } from './src/content/plugin';
+import { mockApiPlugin } from './src/dev/mockApi';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -14,7 +16,7 @@ export default defineConfig(({ mode }) => {
         outDir: 'dist',
         emptyOutDir: true
       },
-      plugins: [react()],
+      plugins: [react(), storyContentPlugin(__dirname), mockApiPlugin()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, './src'),